@@ -1,6 +1,11 @@
 import React, { useState } from 'react';
-import { ConversationalChat } from './components/ConversationalChat';
+import { ChatSessions } from './components/ChatSessions';
 import { ComponentGallery } from './components/ComponentGallery';
+import { FunnelView } from './components/FunnelView';
+import { ApiSettingsView } from './components/ApiSettingsView';
+import { ApiEnvironmentBadge } from './components/ApiEnvironmentBadge';
+import { ApiInspector } from './components/ApiInspector';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './components/ui/dialog';
 import { Button } from './components/ui/button';
 import { Badge } from './components/ui/badge';
 import { Input } from './components/ui/input';
@@ -31,7 +36,8 @@ import {
   Bell,
   Plug,
   Key,
-  Settings
+  Settings,
+  Terminal
 } from 'lucide-react';
 
 const toolCategories = [
@@ -218,6 +224,9 @@ export default function App() {
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [hasWelcomeCompleted, setHasWelcomeCompleted] = useState(false);
   const [resetTrigger, setResetTrigger] = useState(0);
+  const [showFunnel, setShowFunnel] = useState(false);
+  const [showApiSettings, setShowApiSettings] = useState(false);
+  const [showInspector, setShowInspector] = useState(false);
 
   const handleToolSelect = (toolId: string) => {
     setSelectedTool(toolId);
@@ -374,9 +383,42 @@ export default function App() {
             </div>
             <h1 className="font-medium text-base">LeadExec Copilot</h1>
             <Badge variant="secondary" className="text-xs px-2 py-0.5 font-normal">Beta</Badge>
+            <ApiEnvironmentBadge />
           </div>
           
           <div className="flex items-center gap-2">
+            {/* Setup funnel from the recorded chat events */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowFunnel(true)}
+              className="h-8 px-3"
+              aria-label="Client setup funnel"
+            >
+              <BarChart3 className="w-3 h-3" />
+            </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowApiSettings(true)}
+              className="h-8 px-3"
+              aria-label="API settings"
+            >
+              <Key className="w-3 h-3" />
+            </Button>
+
+            {/* LeadExecAPI calls made this session, for debugging integrations */}
+            <Button
+              variant={showInspector ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setShowInspector(prev => !prev)}
+              className="h-8 px-3"
+              aria-label="API calls"
+            >
+              <Terminal className="w-3 h-3" />
+            </Button>
+
             {/* Components/Back to Chat button - no label when not in gallery */}
             <Button
               variant={showComponentGallery ? 'default' : 'outline'}
@@ -419,12 +461,13 @@ export default function App() {
               <ComponentGallery />
             ) : (
               <div className="h-full min-h-0 flex flex-col">
-                <ConversationalChat 
+                <ChatSessions
                   selectedTool={selectedTool}
                   onToolProcessed={handleToolProcessed}
                   onShowAllTools={() => setShowQuickTools(true)}
                   onWelcomeComplete={handleWelcomeComplete}
                   onStartOver={handleStartOver}
+                  onOpenApiSettings={() => setShowApiSettings(true)}
                   resetTrigger={resetTrigger}
                 />
               </div>
@@ -441,6 +484,12 @@ export default function App() {
           )}
         </div>
 
+        {showInspector && (
+          <div className="h-72 border-t flex-shrink-0">
+            <ApiInspector onClose={() => setShowInspector(false)} />
+          </div>
+        )}
+
         {/* Mobile/Tablet: Full overlay for Quick Tools */}
         {showQuickTools && !showComponentGallery && (
           <>
@@ -458,6 +507,26 @@ export default function App() {
         )}
       </div>
       
+      <Dialog open={showFunnel} onOpenChange={setShowFunnel}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Client Setup Funnel</DialogTitle>
+            <DialogDescription>How far runs of the guided client setup got, step by step</DialogDescription>
+          </DialogHeader>
+          <FunnelView />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showApiSettings} onOpenChange={setShowApiSettings}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>API Settings</DialogTitle>
+            <DialogDescription>The LeadExec accounts client setups can be sent to, and which one is in use</DialogDescription>
+          </DialogHeader>
+          <ApiSettingsView onSaved={() => setShowApiSettings(false)} />
+        </DialogContent>
+      </Dialog>
+
       <Toaster />
     </div>
   );
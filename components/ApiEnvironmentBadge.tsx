@@ -0,0 +1,33 @@
+// Badge naming the API connection requests go to, coloured by environment
+import React from 'react';
+import { Badge } from './ui/badge';
+import { ENVIRONMENT_LABELS, type ApiEnvironment } from '../services/apiSettings';
+import { leadexecApi, type LeadExecAPI } from '../services/leadexecApi';
+import { useApiConnection } from './hooks/useApiConnection';
+
+const VARIANTS: Record<ApiEnvironment, 'secondary' | 'outline' | 'destructive'> = {
+  mock: 'secondary',
+  sandbox: 'outline',
+  production: 'destructive'
+};
+
+interface ApiEnvironmentBadgeProps {
+  api?: Pick<LeadExecAPI, 'connection' | 'onConnectionChange'>;
+  className?: string;
+}
+
+export function ApiEnvironmentBadge({ api = leadexecApi, className }: ApiEnvironmentBadgeProps) {
+  const connection = useApiConnection(api);
+  if (!connection) return null;
+
+  const label = ENVIRONMENT_LABELS[connection.environment];
+  return (
+    <Badge
+      variant={VARIANTS[connection.environment]}
+      className={`text-xs px-2 py-0.5 font-normal ${className ?? ''}`}
+      title={`Requests go to ${connection.name} (${label.toLowerCase()})`}
+    >
+      {connection.environment === 'mock' || connection.name === label ? label : `${label} · ${connection.name}`}
+    </Badge>
+  );
+}
@@ -0,0 +1,112 @@
+// Developer panel listing LeadExecAPI calls, for debugging integrations
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { ChevronRight, Copy, RotateCcw, Trash2, X } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { apiCallLog, toCurl, type ApiCallLog, type ApiCallRecord } from '../services/apiCallLog';
+import { leadexecApi, type LeadExecAPI } from '../services/leadexecApi';
+import { buildPath } from '../services/leadexecTransport';
+
+interface ApiInspectorProps {
+  calls?: Pick<ApiCallLog, 'list' | 'subscribe' | 'clear'>;
+  api?: Pick<LeadExecAPI, 'replayOnMock'>;
+  onClose?: () => void;
+}
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="space-y-1 min-w-0">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <pre className="text-xs bg-muted rounded p-2 overflow-auto max-h-48 whitespace-pre-wrap break-all">
+        {value === undefined ? '(none)' : JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+function CallRow({ call, onReplay }: { call: ApiCallRecord; onReplay: (call: ApiCallRecord) => void }) {
+  const [open, setOpen] = useState(false);
+
+  const copyCurl = () => {
+    navigator.clipboard.writeText(toCurl(call)).then(() => {
+      toast.success('Copied to clipboard');
+    }).catch(() => {
+      toast.error('Could not copy to clipboard');
+    });
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border-b">
+      <CollapsibleTrigger className="w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-muted/50">
+        <ChevronRight className={`w-3 h-3 flex-shrink-0 transition-transform ${open ? 'rotate-90' : ''}`} />
+        <Badge variant={call.ok ? 'secondary' : 'destructive'} className="font-mono text-xs w-10">
+          {call.status ?? '—'}
+        </Badge>
+        <span className="font-mono text-xs w-14">{call.method}</span>
+        <span className="font-mono text-xs truncate flex-1">{buildPath(call)}</span>
+        <span className="text-xs text-muted-foreground hidden sm:inline">
+          {call.operation}{call.attempt > 1 ? ` · attempt ${call.attempt}` : ''}{call.replayOf ? ' · replay' : ''}{call.replayed ? ' · idempotent replay' : ''}
+        </span>
+        <span className="text-xs text-muted-foreground w-16 text-right">{call.durationMs} ms</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3 space-y-2">
+        <div className="text-xs text-muted-foreground">
+          {new Date(call.startedAt).toLocaleTimeString()} · {call.baseURL ?? 'Mock server'}
+          {call.idempotencyKey ? ` · Idempotency-Key ${call.idempotencyKey}` : ''}
+        </div>
+        {call.error && <div className="text-xs text-destructive">{call.error}</div>}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <JsonBlock label="Request" value={call.requestBody} />
+          <JsonBlock label="Response" value={call.responseBody} />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="h-7 px-2 gap-1" onClick={copyCurl}>
+            <Copy className="w-3 h-3" />
+            Copy as curl
+          </Button>
+          <Button variant="outline" size="sm" className="h-7 px-2 gap-1" onClick={() => onReplay(call)}>
+            <RotateCcw className="w-3 h-3" />
+            Replay on Mock Server
+          </Button>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export function ApiInspector({ calls = apiCallLog, api = leadexecApi, onClose }: ApiInspectorProps) {
+  const [records, setRecords] = useState<ApiCallRecord[]>(() => calls.list());
+
+  useEffect(() => {
+    setRecords(calls.list());
+    return calls.subscribe(setRecords);
+  }, [calls]);
+
+  return (
+    <div className="h-full flex flex-col bg-background" style={{ fontSize: '14px' }}>
+      <div className="flex items-center justify-between px-3 py-1.5 border-b flex-shrink-0">
+        <span className="text-sm font-medium">API Calls ({records.length})</span>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-7 px-2 gap-1" onClick={() => calls.clear()} disabled={records.length === 0}>
+            <Trash2 className="w-3 h-3" />
+            Clear
+          </Button>
+          {onClose && (
+            <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onClose} aria-label="Close API calls">
+              <X className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto">
+        {records.length === 0 ? (
+          <p className="px-3 py-4 text-xs text-muted-foreground">No API calls yet in this session.</p>
+        ) : (
+          records.map(call => <CallRow key={call.id} call={call} onReplay={record => api.replayOnMock(record)} />)
+        )}
+      </div>
+    </div>
+  );
+}
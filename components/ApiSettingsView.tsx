@@ -0,0 +1,206 @@
+// Where LeadExecAPI sends requests: the mock server, or one of the saved
+// LeadExec connections with its API key
+import React, { useState } from 'react';
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  activeConnection,
+  apiSettingsStore,
+  createConnectionId,
+  DEFAULT_BASE_URL,
+  ENVIRONMENT_LABELS,
+  MOCK_CONNECTION,
+  type ApiConnection,
+  type ApiConnections
+} from '../services/apiSettings';
+import { leadexecApi, type ConnectionCheck, type LeadExecAPI } from '../services/leadexecApi';
+
+interface ApiSettingsViewProps {
+  api?: Pick<LeadExecAPI, 'connect' | 'checkConnection'>;
+  onSaved?: (connection: ApiConnection) => void;
+}
+
+type CheckState = ConnectionCheck | 'checking';
+
+function describeCheck(check: CheckState): string {
+  if (check === 'checking') return 'Checking…';
+  return check.ok ? `API key accepted (${check.latencyMs} ms)` : check.message;
+}
+
+export function ApiSettingsView({ api = leadexecApi, onSaved }: ApiSettingsViewProps) {
+  const [state, setState] = useState<ApiConnections>(() => apiSettingsStore.load());
+  const [selectedId, setSelectedId] = useState(state.activeId);
+  const [checks, setChecks] = useState<Record<string, CheckState>>({});
+
+  const selected = state.connections.find(connection => connection.id === selectedId) ?? MOCK_CONNECTION;
+  const active = activeConnection(state);
+  const editable = selected.id !== MOCK_CONNECTION.id;
+  const check = checks[selected.id];
+
+  const update = (patch: Partial<ApiConnection>) => {
+    setState(prev => ({
+      ...prev,
+      connections: prev.connections.map(connection => (connection.id === selectedId ? { ...connection, ...patch } : connection))
+    }));
+    // A changed URL or key has not been checked
+    setChecks(({ [selectedId]: _stale, ...rest }) => rest);
+  };
+
+  const add = () => {
+    const connection: ApiConnection = {
+      id: createConnectionId(),
+      name: 'New connection',
+      environment: 'sandbox',
+      baseURL: DEFAULT_BASE_URL,
+      bearerToken: ''
+    };
+    setState(prev => ({ ...prev, connections: [...prev.connections, connection] }));
+    setSelectedId(connection.id);
+  };
+
+  const remove = () => {
+    setState(prev => ({
+      connections: prev.connections.filter(connection => connection.id !== selectedId),
+      activeId: prev.activeId === selectedId ? MOCK_CONNECTION.id : prev.activeId
+    }));
+    setSelectedId(state.activeId === selectedId ? MOCK_CONNECTION.id : state.activeId);
+  };
+
+  const runCheck = async () => {
+    const connection = selected;
+    setChecks(prev => ({ ...prev, [connection.id]: 'checking' }));
+    const result = await api.checkConnection(connection);
+    setChecks(prev => ({ ...prev, [connection.id]: result }));
+  };
+
+  const incomplete = state.connections.some(connection =>
+    connection.environment !== 'mock' && (!connection.name.trim() || !connection.baseURL.trim())
+  ) || (active.environment !== 'mock' && !active.bearerToken.trim());
+
+  const save = () => {
+    apiSettingsStore.save(state);
+    api.connect(active);
+    onSaved?.(active);
+  };
+
+  return (
+    <div className="space-y-4" style={{ fontSize: '14px' }}>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Connections</Label>
+          <Button variant="ghost" size="sm" className="h-7 px-2 gap-1" onClick={add}>
+            <Plus className="w-3 h-3" />
+            Add
+          </Button>
+        </div>
+        <div className="border rounded-md divide-y">
+          {state.connections.map(connection => (
+            <div
+              key={connection.id}
+              className={`flex items-center justify-between px-3 py-2 cursor-pointer ${connection.id === selectedId ? 'bg-muted' : ''}`}
+              onClick={() => setSelectedId(connection.id)}
+            >
+              <div className="min-w-0">
+                <div className="truncate">{connection.name || 'Untitled'}</div>
+                <div className="text-xs text-muted-foreground">{ENVIRONMENT_LABELS[connection.environment]}</div>
+              </div>
+              {connection.id === state.activeId ? (
+                <span className="text-xs text-muted-foreground">In use</span>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={(event: React.MouseEvent) => {
+                    event.stopPropagation();
+                    setState(prev => ({ ...prev, activeId: connection.id }));
+                  }}
+                >
+                  Use
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {editable ? (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="api-name">Name</Label>
+            <Input id="api-name" value={selected.name} placeholder="e.g. Acme reseller" onChange={event => update({ name: event.target.value })} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="api-environment">Environment</Label>
+            <Select
+              value={selected.environment}
+              onValueChange={(environment: string) => update({ environment: environment as ApiConnection['environment'] })}
+            >
+              <SelectTrigger id="api-environment">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sandbox">Sandbox</SelectItem>
+                <SelectItem value="production">Production</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="api-base-url">API URL</Label>
+            <Input id="api-base-url" value={selected.baseURL} onChange={event => update({ baseURL: event.target.value })} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="api-token">API key</Label>
+            <div className="flex gap-2">
+              <Input
+                id="api-token"
+                type="password"
+                value={selected.bearerToken}
+                placeholder="Bearer token"
+                onChange={event => update({ bearerToken: event.target.value })}
+              />
+              <Button variant="outline" size="sm" className="h-9" onClick={runCheck} disabled={check === 'checking'}>
+                Check Key
+              </Button>
+            </div>
+            {check && (
+              <p className={`text-xs ${check !== 'checking' && !check.ok ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {describeCheck(check)}
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-start">
+            <Button variant="ghost" size="sm" className="h-7 px-2 gap-1 text-destructive" onClick={remove}>
+              <Trash2 className="w-3 h-3" />
+              Remove Connection
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          The mock server runs in the browser. Nothing is sent to LeadExec.
+        </p>
+      )}
+
+      {active.environment === 'production' && (
+        <div className="flex items-start gap-2 text-xs text-destructive">
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>{active.name} is a production account. Client setups will create real clients.</span>
+        </div>
+      )}
+
+      <div className="flex justify-end pt-2 border-t">
+        <Button size="sm" className="h-8" onClick={save} disabled={incomplete}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+// Runs several conversations side by side; only the active one is shown
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ConversationalChat } from './ConversationalChat';
+import { SessionSidebar } from './SessionSidebar';
+import type { ChatSession, ConversationalChatProps, SessionStatus } from './chat-types';
+import { DEFAULT_SESSION_ID, getSessionConversationStore } from '../services/conversationStore';
+import { sessionStore, type SessionListSnapshot } from '../services/sessionStore';
+
+type StatusHandler = NonNullable<ConversationalChatProps['onStatusChange']>;
+
+export interface ChatSessionsProps extends Omit<ConversationalChatProps, 'store' | 'onStatusChange'> {}
+
+function createSession(id: string, number: number): ChatSession {
+  return {
+    id,
+    name: `Session ${number}`,
+    status: 'idle',
+    detail: null,
+    createdAt: new Date().toISOString()
+  };
+}
+
+export function ChatSessions({
+  selectedTool,
+  onToolProcessed,
+  onShowAllTools,
+  onStartOver,
+  onOpenApiSettings,
+  onWelcomeComplete,
+  resetTrigger,
+  assistantProvider,
+  clock
+}: ChatSessionsProps) {
+  const [{ sessions, activeId }, setSessionList] = useState<SessionListSnapshot>(() => (
+    sessionStore.load() || { sessions: [createSession(DEFAULT_SESSION_ID, 1)], activeId: DEFAULT_SESSION_ID }
+  ));
+  // Reset counters per session, so Start Over only resets the active one
+  const [resetTriggers, setResetTriggers] = useState<Record<string, number>>({});
+  // Chats are never remounted, so each needs a stable status callback
+  const statusHandlersRef = useRef(new Map<string, StatusHandler>());
+  const sessionCounterRef = useRef(sessions.length);
+
+  useEffect(() => {
+    sessionStore.save({ sessions, activeId });
+  }, [sessions, activeId]);
+
+  useEffect(() => {
+    if (!resetTrigger) return;
+    setResetTriggers(prev => ({ ...prev, [activeId]: (prev[activeId] || 0) + 1 }));
+  }, [resetTrigger]);
+
+  const getStatusHandler = (sessionId: string): StatusHandler => {
+    let handler = statusHandlersRef.current.get(sessionId);
+    if (!handler) {
+      handler = (status: SessionStatus, detail: string | null) => {
+        setSessionList(prev => ({
+          ...prev,
+          sessions: prev.sessions.map(session => (
+            session.id === sessionId && (session.status !== status || session.detail !== detail)
+              ? { ...session, status, detail }
+              : session
+          ))
+        }));
+      };
+      statusHandlersRef.current.set(sessionId, handler);
+    }
+    return handler;
+  };
+
+  const handleSelect = useCallback((sessionId: string) => {
+    setSessionList(prev => ({ ...prev, activeId: sessionId }));
+    const session = sessions.find(candidate => candidate.id === sessionId);
+    if (session && session.status !== 'idle') onWelcomeComplete?.();
+  }, [sessions, onWelcomeComplete]);
+
+  const handleCreate = useCallback(() => {
+    sessionCounterRef.current += 1;
+    const session = createSession(
+      `session_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+      sessionCounterRef.current
+    );
+    setSessionList(prev => ({ sessions: [...prev.sessions, session], activeId: session.id }));
+  }, []);
+
+  const handleRename = useCallback((sessionId: string, name: string) => {
+    setSessionList(prev => ({
+      ...prev,
+      sessions: prev.sessions.map(session => (session.id === sessionId ? { ...session, name } : session))
+    }));
+  }, []);
+
+  const handleClose = useCallback((sessionId: string) => {
+    getSessionConversationStore(sessionId).clear();
+    statusHandlersRef.current.delete(sessionId);
+    setSessionList(prev => {
+      const index = prev.sessions.findIndex(session => session.id === sessionId);
+      const remaining = prev.sessions.filter(session => session.id !== sessionId);
+      if (remaining.length === 0) return prev;
+      const activeId = prev.activeId === sessionId
+        ? remaining[Math.min(index, remaining.length - 1)].id
+        : prev.activeId;
+      return { sessions: remaining, activeId };
+    });
+  }, []);
+
+  return (
+    <div className="h-full flex min-h-0">
+      <SessionSidebar
+        sessions={sessions}
+        activeId={activeId}
+        onSelect={handleSelect}
+        onCreate={handleCreate}
+        onRename={handleRename}
+        onClose={handleClose}
+      />
+
+      <div className="flex-1 min-w-0 min-h-0">
+        {sessions.map(session => {
+          const isActive = session.id === activeId;
+          return (
+            // Inactive chats stay mounted so their flows keep running
+            <div key={session.id} className={isActive ? 'h-full min-h-0 flex flex-col' : 'hidden'}>
+              <ConversationalChat
+                selectedTool={isActive ? selectedTool : null}
+                onToolProcessed={onToolProcessed}
+                onShowAllTools={onShowAllTools}
+                onStartOver={isActive ? onStartOver : undefined}
+                onOpenApiSettings={onOpenApiSettings}
+                onWelcomeComplete={isActive ? onWelcomeComplete : undefined}
+                resetTrigger={resetTriggers[session.id] || 0}
+                assistantProvider={assistantProvider}
+                clock={clock}
+                store={getSessionConversationStore(session.id)}
+                onStatusChange={getStatusHandler(session.id)}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
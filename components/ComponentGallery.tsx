@@ -23,6 +23,7 @@ import { EntitySelect } from './ui-modules/EntitySelect';
 import { SummaryCard } from './ui-modules/SummaryCard';
 import { ProcessState } from './ui-modules/ProcessState';
 import { HelpSources } from './ui-modules/HelpSources';
+import { CodeViewer } from './ui-modules/CodeViewer';
 
 interface ComponentExample {
   id: string;
@@ -428,6 +429,23 @@ const componentExamples: ComponentExample[] = [
       detail: 'Setting up delivery configuration...'
     },
     component: ProcessState
+  },
+  {
+    id: 'codeviewer-payload',
+    title: 'CodeViewer - Request Payload',
+    description: 'Read-only JSON with a copy button',
+    module: 'CodeViewer',
+    props: {
+      kind: 'code-viewer',
+      title: 'Create client',
+      caption: 'PATCH /v1/clients',
+      language: 'json',
+      code: JSON.stringify({
+        Info: { ClientUID: 0, Status: 'New', Username: 'acmecorp', Password: '[redacted]', Notes: '' },
+        FieldData: [{ ClientFieldUID: 1, Value: 'Acme Corp' }, { ClientFieldUID: 2, Value: 'contact@acme.com' }]
+      })
+    },
+    component: CodeViewer
   }
 ];
 
@@ -0,0 +1,67 @@
+// Renders a declarative flow node with its modules and buttons
+import React from 'react';
+import { MessageModules } from './MessageModules';
+import { getNodeModules } from './flow-engine';
+import type { FlowDefinition, FlowEvent, FlowPresentableNode, FlowValues } from './flow-types';
+
+interface FlowNodeViewProps {
+  flow: FlowDefinition;
+  node: FlowPresentableNode;
+  values: FlowValues;
+  /** Recorded answer shown in the node's form or choice list */
+  answer?: FlowValues;
+  locked: boolean;
+  derivedValues?: Record<string, any>;
+  /** Errors to show on the node's form fields, keyed by field id */
+  fieldErrors?: Record<string, string>;
+  onRequestDerive?: (targets: any[], currentValues: Record<string, any>) => void;
+  onEvent: (event: FlowEvent) => void;
+}
+
+export function FlowNodeView({
+  flow,
+  node,
+  values,
+  answer,
+  locked,
+  derivedValues,
+  fieldErrors,
+  onRequestDerive,
+  onEvent
+}: FlowNodeViewProps) {
+  const modules = getNodeModules(flow, node, values, answer).map(module => (
+    fieldErrors && module.kind === 'form' ? { ...module, props: { ...module.props, fieldErrors } } : module
+  ));
+  // The node's own buttons are appended last
+  const buttonsIndex = node.actions?.length ? modules.length - 1 : -1;
+
+  return (
+    <MessageModules
+      modules={modules}
+      locked={locked}
+      derivedValues={derivedValues}
+      onRequestDerive={onRequestDerive}
+      onEvent={(event, index) => {
+        switch (event.type) {
+          case 'choice':
+            onEvent({ type: 'choice', value: String(event.value) });
+            break;
+          case 'action':
+            onEvent(index === buttonsIndex
+              ? { type: 'button', id: event.id }
+              : { type: 'module-action', id: event.id });
+            break;
+          case 'edit':
+            onEvent({ type: 'edit', nodeId: event.target });
+            break;
+          case 'search':
+          case 'load-more':
+            // Flow steps do not page remote options
+            break;
+          default:
+            onEvent(event);
+        }
+      }}
+    />
+  );
+}
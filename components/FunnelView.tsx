@@ -0,0 +1,83 @@
+// Completion rates per step of the client setup flow, from the stored chat events
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Progress } from './ui/progress';
+import { buildFlowFunnel, CLIENT_SETUP_FUNNEL, type FunnelStep } from './flow-funnel';
+import { downloadEvents, eventBus, eventLog, type EventBus, type LocalStorageSink } from '../services/eventBus';
+
+interface FunnelViewProps {
+  flowId?: string;
+  steps?: FunnelStep[];
+  /** Bus to follow for live updates */
+  events?: EventBus;
+  /** Stored events the funnel is built from */
+  log?: LocalStorageSink;
+}
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+export function FunnelView({
+  flowId = 'create-new-client',
+  steps = CLIENT_SETUP_FUNNEL,
+  events = eventBus,
+  log = eventLog
+}: FunnelViewProps) {
+  const [storedEvents, setStoredEvents] = useState(() => log.read());
+
+  // The log is written by a sink on the same bus, so re-read after each event
+  useEffect(() => events.subscribe(() => setStoredEvents(log.read())), [events, log]);
+
+  const funnel = useMemo(() => buildFlowFunnel(storedEvents, flowId, steps), [storedEvents, flowId, steps]);
+
+  const clearLog = () => {
+    log.clear();
+    setStoredEvents([]);
+  };
+
+  return (
+    <div className="space-y-4" style={{ fontSize: '14px' }}>
+      <div className="flex items-center gap-4 text-sm text-muted-foreground font-normal">
+        <span><span className="font-medium text-foreground">{funnel.started}</span> started</span>
+        <span><span className="font-medium text-foreground">{funnel.abandoned}</span> abandoned</span>
+        <span>{storedEvents.length} events stored</span>
+      </div>
+
+      {funnel.started === 0 ? (
+        <p className="text-sm text-muted-foreground font-normal">
+          No runs of this flow have been recorded yet.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {funnel.steps.map(step => (
+            <div key={step.id} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{step.title}</span>
+                <span className="text-muted-foreground font-normal">
+                  {step.completed} of {funnel.started} · {percent(step.rate)}
+                </span>
+              </div>
+              <Progress value={step.rate * 100} />
+              {step.dropped > 0 && (
+                <p className="text-xs text-muted-foreground font-normal">
+                  {step.dropped} dropped out here
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 pt-2 border-t">
+        <Button variant="outline" size="sm" className="gap-2 h-8" onClick={clearLog} disabled={storedEvents.length === 0}>
+          <Trash2 className="w-3 h-3" />
+          Clear
+        </Button>
+        <Button variant="outline" size="sm" className="gap-2 h-8" onClick={() => downloadEvents(storedEvents)} disabled={storedEvents.length === 0}>
+          <Download className="w-3 h-3" />
+          Download NDJSON
+        </Button>
+      </div>
+    </div>
+  );
+}
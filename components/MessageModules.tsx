@@ -0,0 +1,52 @@
+// Renders the module descriptors attached to a chat message
+import React from 'react';
+import {
+  isModuleLockable,
+  moduleNeedsWrapper,
+  renderModule,
+  type ModuleDescriptor,
+  type ModuleEvent,
+  type ModuleRenderContext
+} from './ui-modules/registry';
+
+interface MessageModulesProps extends Omit<ModuleRenderContext, 'onEvent'> {
+  modules: ModuleDescriptor[];
+  onEvent?: (event: ModuleEvent, index: number) => void;
+}
+
+export function MessageModules({
+  modules,
+  locked = false,
+  onEvent,
+  derivedValues,
+  onRequestDerive
+}: MessageModulesProps) {
+  if (modules.length === 0) return null;
+
+  // Help sources and completion summaries stay interactive
+  const effectiveLocked = locked && modules.every(isModuleLockable);
+  const needsWrapper = modules.length > 1 || moduleNeedsWrapper(modules[0]);
+
+  const content = modules.map((descriptor, index) => (
+    <React.Fragment key={index}>
+      {renderModule(descriptor, {
+        locked: effectiveLocked,
+        onEvent: (event) => onEvent?.(event, index),
+        derivedValues,
+        onRequestDerive
+      })}
+    </React.Fragment>
+  ));
+
+  return (
+    <div className={`mt-4 sm:mt-6 ${effectiveLocked ? 'opacity-60 pointer-events-none' : ''}`}>
+      {needsWrapper ? (
+        <div className="border rounded-lg p-4 sm:p-6 bg-card shadow-sm">
+          <div className="space-y-4">{content}</div>
+        </div>
+      ) : (
+        content
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+// Lists the open chat sessions with their status
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import type { ChatSession, SessionStatus } from './chat-types';
+
+const STATUS_STYLES: Record<SessionStatus, { label: string; dot: string }> = {
+  'idle': { label: 'New', dot: 'bg-muted-foreground/40' },
+  'in-progress': { label: 'In progress', dot: 'bg-blue-500 animate-pulse' },
+  'completed': { label: 'Completed', dot: 'bg-green-500' },
+  'failed': { label: 'Failed', dot: 'bg-red-500' }
+};
+
+interface SessionSidebarProps {
+  sessions: ChatSession[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onClose: (id: string) => void;
+}
+
+export function SessionSidebar({ sessions, activeId, onSelect, onCreate, onRename, onClose }: SessionSidebarProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) onRename(renamingId, draftName.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="hidden md:flex w-56 flex-shrink-0 border-r bg-background flex-col min-h-0">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h2 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Sessions</h2>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onCreate} aria-label="New session">
+          <Plus className="w-3 h-3" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto min-h-0 p-2 space-y-1">
+        {sessions.map(session => {
+          const status = STATUS_STYLES[session.status];
+          const isActive = session.id === activeId;
+
+          return (
+            <div
+              key={session.id}
+              className={`group rounded-lg px-3 py-2 cursor-pointer transition-colors ${
+                isActive ? 'bg-accent' : 'hover:bg-accent/50'
+              }`}
+              onClick={() => onSelect(session.id)}
+              onDoubleClick={() => startRename(session)}
+            >
+              <div className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${status.dot}`} title={status.label} />
+                {renamingId === session.id ? (
+                  <Input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="h-6 px-1 text-sm"
+                  />
+                ) : (
+                  <span className="flex-1 text-sm font-medium truncate">{session.name}</span>
+                )}
+                {sessions.length > 1 && renamingId !== session.id && (
+                  <button
+                    className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onClose(session.id);
+                    }}
+                    aria-label={`Close ${session.name}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+              <p className="mt-0.5 pl-4 text-xs text-muted-foreground truncate">
+                {session.detail ? `${status.label} · ${session.detail}` : status.label}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="border-t px-4 py-2 text-xs text-muted-foreground">Double-click a session to rename it</p>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+// Autocomplete popover for slash commands, shown above the chat composer
+import React from 'react';
+import { Command, CommandGroup, CommandItem, CommandList } from './ui/command';
+import type { SlashCommand, SlashCommandId } from './slash-commands';
+
+interface SlashCommandMenuProps {
+  commands: SlashCommand[];
+  /** Highlighted command; keyboard navigation is driven by the composer */
+  selected: SlashCommandId | null;
+  onHighlight: (id: SlashCommandId) => void;
+  onSelect: (command: SlashCommand) => void;
+}
+
+export function SlashCommandMenu({ commands, selected, onHighlight, onSelect }: SlashCommandMenuProps) {
+  if (commands.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-10">
+      <Command
+        shouldFilter={false}
+        value={selected ?? ''}
+        onValueChange={(value: string) => onHighlight(value as SlashCommandId)}
+        className="border rounded-lg shadow-md h-auto"
+      >
+        <CommandList>
+          <CommandGroup heading="Commands">
+            {commands.map(command => {
+              const Icon = command.icon;
+              return (
+                <CommandItem
+                  key={command.id}
+                  value={command.id}
+                  onSelect={() => onSelect(command)}
+                  // Keep focus in the composer input
+                  onMouseDown={(event: React.MouseEvent) => event.preventDefault()}
+                >
+                  <Icon className="w-4 h-4" />
+                  <span className="font-medium">/{command.id}</span>
+                  {command.argument && (
+                    <span className="text-muted-foreground">{command.argument}</span>
+                  )}
+                  <span className="ml-auto text-xs text-muted-foreground truncate">
+                    {command.description}
+                  </span>
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        </CommandList>
+      </Command>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+// How the chat recovers from a failed LeadExec call, by the type of error
+import {
+  AuthError,
+  ConflictError,
+  NetworkError,
+  RateLimitError,
+  ValidationError
+} from '../services/leadexecErrors';
+import type { SuggestedAction } from './chat-types';
+
+export type ErrorRecovery =
+  /** Reopen the form that collected the fields, with a message per field */
+  | { kind: 'fix-fields'; fieldErrors: Record<string, string> }
+  /** Answer the form again with a fresh username */
+  | { kind: 'regenerate-username' }
+  | { kind: 'open-api-settings' }
+  | { kind: 'retry' };
+
+export interface ErrorRecoveryPlan {
+  /** Assistant message explaining what went wrong */
+  content: string;
+  recovery: ErrorRecovery;
+}
+
+const seconds = (ms: number) => Math.max(1, Math.ceil(ms / 1000));
+
+/** What to tell the user about a failed flow action and how to get past it */
+export function planErrorRecovery(error: unknown): ErrorRecoveryPlan {
+  if (error instanceof ConflictError && error.field === 'username') {
+    return {
+      content: `The username "${error.value}" is already taken in LeadExec. I can generate a new one and try again.`,
+      recovery: { kind: 'regenerate-username' }
+    };
+  }
+  if (error instanceof ConflictError && error.field) {
+    return {
+      content: 'LeadExec already has a client with these details. I\'ve reopened the form so you can change them.',
+      recovery: { kind: 'fix-fields', fieldErrors: { [error.field]: error.message } }
+    };
+  }
+  if (error instanceof ValidationError && Object.keys(error.fieldErrors).length > 0) {
+    return {
+      content: 'LeadExec didn\'t accept some of the details. I\'ve reopened the form with the problems marked.',
+      recovery: { kind: 'fix-fields', fieldErrors: error.fieldErrors }
+    };
+  }
+  if (error instanceof AuthError) {
+    return {
+      content: 'LeadExec rejected the API key. Check the API settings, then try again.',
+      recovery: { kind: 'open-api-settings' }
+    };
+  }
+  if (error instanceof RateLimitError) {
+    return {
+      content: error.retryAfterMs !== undefined
+        ? `LeadExec is receiving too many requests. Try again in ${seconds(error.retryAfterMs)} seconds.`
+        : 'LeadExec is receiving too many requests. Wait a moment, then try again.',
+      recovery: { kind: 'retry' }
+    };
+  }
+  if (error instanceof NetworkError) {
+    return {
+      content: 'I couldn\'t reach LeadExec. Check your connection, then try again.',
+      recovery: { kind: 'retry' }
+    };
+  }
+  return { content: 'Something went wrong while completing this step.', recovery: { kind: 'retry' } };
+}
+
+/** Buttons offered with the error message */
+export function recoveryActions(recovery: ErrorRecovery): SuggestedAction[] {
+  switch (recovery.kind) {
+    case 'regenerate-username':
+      return [{ id: 'regenerate-username', label: 'Generate New Username', command: { type: 'regenerate-username' } }];
+    case 'open-api-settings':
+      return [
+        { id: 'api-settings', label: 'Open API Settings', command: { type: 'open-api-settings' } },
+        { id: 'retry', label: 'Try Again', variant: 'outline', command: { type: 'retry-action' } }
+      ];
+    case 'retry':
+      return [{ id: 'retry', label: 'Try Again', command: { type: 'retry-action' } }];
+    default:
+      return [];
+  }
+}
@@ -34,10 +34,9 @@ export const CLIENT_SETUP_STEPS = [
 
 export const BULK_UPLOAD_STEPS = [
   { id: 'overview', title: 'Process Overview', hint: 'Understanding the bulk upload process' },
-  { id: 'template', title: 'Download Template', hint: 'Get the Excel template file' },
+  { id: 'template', title: 'Download Template', hint: 'Get the CSV template file' },
   { id: 'upload', title: 'Upload File', hint: 'Upload your completed client data' },
-  { id: 'validation', title: 'Validation', hint: 'System validates your data' },
-  { id: 'processing', title: 'Processing', hint: 'Creating clients and generating credentials' },
+  { id: 'processing', title: 'Processing', hint: 'Creating a client for each row' },
   { id: 'completion', title: 'Completion', hint: 'Review results and next steps' }
 ] as const;
 
@@ -166,7 +165,13 @@ export const HELP_SOURCES_BY_CATEGORY: Record<string, Array<{
 export const TOOL_NAMES: Record<string, string> = {
   'create-new-client': 'Create New Client',
   'create-client-simplified': 'Create Client (Simplified)',
-  'bulk-client-upload': 'Bulk Client Upload'
+  'bulk-client-upload': 'Bulk Client Upload',
+  'client-management': 'Client Management',
+  'client-search-filter': 'Client Search',
+  'delivery-configuration': 'Delivery Configuration',
+  'lead-sources': 'Lead Sources',
+  'revenue-reports': 'Revenue Reports',
+  'user-management': 'User Management'
 };
 
 // Method labels for delivery
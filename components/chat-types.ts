@@ -1,4 +1,28 @@
 // Type definitions for ConversationalChat component
+import type { FlowMessageRef, FlowRunSnapshot, FlowValues } from './flow-types';
+import type { ModuleDescriptor } from './ui-modules/registry';
+import type { AssistantProvider } from '../services/assistantProvider';
+import type { ConversationStore } from '../services/conversationStore';
+import type { Clock } from '../services/clock';
+import type { EventBus } from '../services/eventBus';
+import type { LeadExecAPI } from '../services/leadexecApi';
+import type { OnboardingOrchestrator } from '../services/onboardingSaga';
+
+/** Serializable instruction behind a button, resolved by ConversationalChat */
+export type ChatCommand =
+  | { type: 'start-flow'; flowId: string }
+  | { type: 'select-tool'; toolId: string }
+  | { type: 'start-over' }
+  | { type: 'reply'; text: string }
+  // Answer the assistant's pending question with value, echoing label
+  | { type: 'answer'; value: string; label: string }
+  // Recoveries offered when a flow action failed
+  | { type: 'retry-action' }
+  | { type: 'regenerate-username' }
+  | { type: 'open-api-settings' }
+  // Client onboarding runs that stopped part way
+  | { type: 'resume-onboarding'; logId: string }
+  | { type: 'rollback-onboarding'; logId: string };
 
 export interface SuggestedAction {
   id: string;
@@ -7,7 +31,8 @@ export interface SuggestedAction {
   icon?: React.ReactNode;
   disabled?: boolean;
   selected?: boolean;
-  onClick: () => void;
+  onClick?: () => void;
+  command?: ChatCommand;
 }
 
 export interface MessageSource {
@@ -24,13 +49,18 @@ export interface Message {
   timestamp: Date;
   
   // AI Agent Message Slots
-  component?: React.ReactNode;           // UI Module slot
+  component?: ModuleDescriptor;          // UI Module slot
+  commands?: Record<string, ChatCommand>; // Module action id -> command
   suggestedActions?: SuggestedAction[];  // Actions slot
   sources?: MessageSource[];             // Sources slot
+  flow?: FlowMessageRef;                 // Declarative flow node, rendered live
   
   // Message properties
   isWelcome?: boolean;
   isLocked?: boolean;
+  isSuperseded?: boolean;                // Flow step outdated by an edited answer
+  isStreaming?: boolean;                 // Text still arriving; modules attach when it completes
+  isStopped?: boolean;                   // Response stopped before the text completed
   stepId?: string;
   priority?: 'low' | 'normal' | 'high';
   category?: string;
@@ -41,20 +71,88 @@ export interface ConversationalChatProps {
   onToolProcessed?: () => void;
   onShowAllTools?: () => void;
   onStartOver?: () => void;
+  /** Open the LeadExec API key settings, e.g. after an authentication failure */
+  onOpenApiSettings?: () => void;
   onWelcomeComplete?: () => void;
   resetTrigger?: number;
+  assistantProvider?: AssistantProvider;
+  /** Where the conversation is saved; defaults to the shared store */
+  store?: ConversationStore;
+  /** Reports the session's status and the tool it is using, for the session sidebar */
+  onStatusChange?: (status: SessionStatus, detail: string | null) => void;
+  /** Timer source for scheduled replies and flow steps; defaults to the system clock */
+  clock?: Clock;
+  /** Receives flow progress, module interactions and errors; defaults to the shared bus */
+  events?: EventBus;
+  /**
+   * Reads the account's client fields, creates and browses clients, and
+   * tells which connection that happens on; defaults to the shared LeadExec client
+   */
+  api?: Pick<LeadExecAPI, 'getClientFieldDefinitions' | 'createClient' | 'bulkCreateClients' | 'listClients' | 'getClient' | 'connection'>;
+  /** Runs client creation as a resumable, undoable onboarding, or previews it; defaults to the shared orchestrator */
+  onboarding?: Pick<OnboardingOrchestrator, 'start' | 'resume' | 'rollback' | 'canResume' | 'preview' | 'get' | 'recover'>;
+}
+
+export type SessionStatus = 'idle' | 'in-progress' | 'completed' | 'failed';
+
+// A named conversation in the session sidebar
+export interface ChatSession {
+  id: string;
+  name: string;
+  status: SessionStatus;
+  /** Tool the session is using */
+  detail: string | null;
+  createdAt: string;
 }
 
 export interface AddMessageOptions {
-  component?: React.ReactNode;
+  component?: ModuleDescriptor;
+  commands?: Record<string, ChatCommand>;
   suggestedActions?: SuggestedAction[];
   sources?: MessageSource[];
+  flow?: FlowMessageRef;
   isWelcome?: boolean;
+  isStreaming?: boolean;
   stepId?: string;
   priority?: 'low' | 'normal' | 'high';
   category?: string;
 }
 
+// How a tool picked from the chat starts
+export interface FlowStart {
+  /** Free text handed to the conversational setup's first turn */
+  input?: string;
+  /** Answers taken as given by a guided flow, e.g. copied from another client */
+  prefill?: FlowValues;
+}
+
+// Answers collected by the conversational (simplified) client setup
+export interface SimplifiedSetupData {
+  companyName?: string;
+  email?: string;
+  phone?: string;
+  username?: string;
+  password?: string;
+  deliveryMethod?: string;
+  currentQuestion?: string;
+  webhookUrl?: string;
+  webhookAuthType?: string;
+  webhookUsername?: string;
+  webhookPassword?: string;
+  webhookApiKey?: string;
+  ftpServer?: string;
+  ftpPort?: string;
+  ftpUsername?: string;
+  ftpPassword?: string;
+  ftpDirectory?: string;
+  emailFieldConfig?: string;
+  emailExclusions?: string[];
+  dailyLeadLimit?: number;
+  leadPrice?: number;
+  leadTypes?: string;
+  excludeWeekends?: boolean;
+}
+
 export interface FormField {
   id: string;
   label: string;
@@ -86,4 +184,28 @@ export interface DerivationRule {
   from: string[];
   strategy: 'usernameFromEmail' | 'strongPassword';
   editable: boolean;
-}
\ No newline at end of file
+}
+
+// Persisted form of a message: click handlers are dropped, actions backed by a
+// command survive
+export interface StoredMessage extends Omit<Message, 'suggestedActions' | 'timestamp'> {
+  timestamp: string;
+  suggestedActions?: Array<Pick<SuggestedAction, 'id' | 'label' | 'variant' | 'selected' | 'command'>>;
+}
+
+export interface ConversationSnapshot {
+  version: number;
+  savedAt: string;
+  messages: StoredMessage[];
+  completedSteps: Record<string, string[]>;
+  currentFlow: string | null;
+  currentStep: string | null;
+  flowActive: boolean;
+  selectedActions: string[];
+  simplifiedFlowData: Record<string, any>;
+  flowRun: FlowRunSnapshot | null;
+  /** Onboarding run the flow started and has not finished, so it can be resumed or rolled back */
+  onboardingLogId?: string | null;
+  /** Credentials emptied in flowRun, asked for again when the conversation is restored */
+  missingCredentials?: string[];
+}
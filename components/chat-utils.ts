@@ -1,5 +1,8 @@
 // Utility functions for chat message handling
-import { Message, AddMessageOptions } from './chat-types';
+import { Message, AddMessageOptions, StoredMessage } from './chat-types';
+import type { FlowAnswerRecord, FlowEvent, FlowRunSnapshot, FlowValues } from './flow-types';
+import type { ModuleDescriptor, ModuleEvent } from './ui-modules/registry';
+import { redact, SECRET_KEY } from '../services/apiCallLog';
 
 /**
  * Generate unique message ID
@@ -25,16 +28,101 @@ export function createMessage(
     sender,
     timestamp: new Date(),
     component: options.component,
+    commands: options.commands,
     suggestedActions: options.suggestedActions,
     sources: options.sources,
+    flow: options.flow,
     isWelcome: options.isWelcome || false,
     isLocked: false,
     stepId: options.stepId,
     priority: options.priority || 'normal',
-    category: options.category
+    category: options.category,
+    isStreaming: options.isStreaming
+  };
+}
+
+/** Keys of values that are credentials, e.g. tempPassword or webhookSecret, and are filled in */
+export function credentialKeys(values: FlowValues): string[] {
+  return Object.keys(values).filter(key => SECRET_KEY.test(key) && values[key] !== undefined && values[key] !== '');
+}
+
+/**
+ * values with credentials emptied. The keys stay, so the answer that
+ * collected them can still be found and asked again.
+ */
+export function withoutCredentials(values: FlowValues): FlowValues {
+  const keys = credentialKeys(values);
+  return keys.length === 0 ? values : { ...values, ...Object.fromEntries(keys.map(key => [key, ''])) };
+}
+
+/**
+ * Convert a flow run to its persisted form. Credentials are kept in memory
+ * only, like unsent API requests.
+ */
+export function toStoredFlowRun(snapshot: FlowRunSnapshot): FlowRunSnapshot {
+  const strip = (record: FlowAnswerRecord): FlowAnswerRecord => ({ ...record, updates: withoutCredentials(record.updates) });
+  return {
+    ...snapshot,
+    values: withoutCredentials(snapshot.values),
+    answers: snapshot.answers.map(strip),
+    retained: snapshot.retained.map(strip)
+  };
+}
+
+/**
+ * Convert a message to its persisted form, without credentials
+ */
+export function toStoredMessage(message: Message): StoredMessage {
+  const { suggestedActions, timestamp, isStreaming, ...rest } = message;
+  return {
+    ...rest,
+    ...(rest.flow ? { flow: { ...rest.flow, values: withoutCredentials(rest.flow.values) } } : {}),
+    ...(rest.component ? { component: redact(rest.component) as ModuleDescriptor } : {}),
+    timestamp: timestamp.toISOString(),
+    suggestedActions: suggestedActions?.map(({ id, label, variant, selected, command }) => ({ id, label, variant, selected, command }))
   };
 }
 
+/**
+ * What a module event acted on, for telemetry: option, button or field ids,
+ * never the values entered
+ */
+export function describeModuleTarget(event: ModuleEvent | FlowEvent): string | undefined {
+  switch (event.type) {
+    case 'choice': return ([] as string[]).concat(event.value).join(',');
+    case 'submit': return Object.keys(event.data).join(',');
+    case 'upload': return `${event.files.length} file(s)`;
+    case 'edit': return 'nodeId' in event ? event.nodeId : event.target;
+    case 'search':
+    case 'load-more': return undefined;
+    default: return event.id;
+  }
+}
+
+/**
+ * Split text into chunks of a few words, keeping whitespace and line breaks
+ */
+export function chunkText(text: string, wordsPerChunk = 3): string[] {
+  const words = text.match(/\s*\S+\s*/g) || [];
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += wordsPerChunk) {
+    chunks.push(words.slice(i, i + wordsPerChunk).join(''));
+  }
+  return chunks;
+}
+
+/**
+ * Save text content as a file through a temporary download link
+ */
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Password generation utility
  */
@@ -70,6 +158,14 @@ export function generateUsernameFromEmail(email: string): string {
   return username || 'client_' + Math.random().toString(36).substr(2, 6);
 }
 
+/**
+ * Another username after one was taken: the same name with a random number
+ */
+export function alternativeUsername(taken: string): string {
+  const base = taken.replace(/\d+$/, '') || 'client';
+  return `${base}${Math.floor(100 + Math.random() * 900)}`;
+}
+
 /**
  * Derive form field values based on strategy
  */
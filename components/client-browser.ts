@@ -0,0 +1,76 @@
+// Client search in chat: a remote entity select paged through LeadExecAPI.listClients
+import type { ClientFieldDefinition, ClientPage, LeadExecClient } from '../services/leadexecApi';
+import type { ModuleDescriptor, ModulePropsByKind } from './ui-modules/registry';
+
+export const CLIENT_PAGE_SIZE = 25;
+
+export type ClientSearchProps = ModulePropsByKind['entity-select'];
+type ClientOption = NonNullable<ClientSearchProps['options']>[number];
+
+function clientOption(client: LeadExecClient): ClientOption {
+  return {
+    id: String(client.clientUID),
+    label: client.companyName || client.username,
+    description: [client.email, client.status].filter(Boolean).join(' · ')
+  };
+}
+
+/** Search module shown while its first page loads */
+export function clientSearchModule(query: string): ModuleDescriptor {
+  return {
+    kind: 'entity-select',
+    props: {
+      title: 'Clients',
+      description: 'Search by company name, email or username',
+      remote: true,
+      query,
+      options: [],
+      loading: true,
+      nextCursor: null,
+      pageSize: CLIENT_PAGE_SIZE,
+      placeholder: 'Select a client…',
+      empty: 'No clients found',
+      allowClear: false
+    }
+  };
+}
+
+/** Search props showing a page of results; later pages are appended to the earlier ones */
+export function withClientPage(props: ClientSearchProps, page: ClientPage, append: boolean): ClientSearchProps {
+  const options = page.clients.map(clientOption);
+  return {
+    ...props,
+    options: append ? [...(props.options || []), ...options] : options,
+    nextCursor: page.nextCursor,
+    loading: false,
+    error: undefined
+  };
+}
+
+/** A client's account details and field values, labelled from the field definitions */
+export function clientDetailsModule(client: LeadExecClient, fields: ClientFieldDefinition[]): ModuleDescriptor {
+  const labelled = Object.entries(client.fields).map(([name, value]) => ({
+    id: name,
+    label: fields.find(field => field.name === name)?.label ?? name,
+    value
+  }));
+  return {
+    kind: 'review',
+    props: {
+      title: client.companyName || client.username,
+      sections: [
+        {
+          id: 'account',
+          title: 'Account',
+          items: [
+            { id: 'clientUID', label: 'Client ID', value: String(client.clientUID) },
+            { id: 'status', label: 'Status', value: client.status },
+            { id: 'username', label: 'Username', value: client.username },
+            ...(client.dateAdded ? [{ id: 'dateAdded', label: 'Added', value: new Date(client.dateAdded).toLocaleDateString() }] : [])
+          ]
+        },
+        { id: 'fields', title: 'Client Fields', items: labelled }
+      ]
+    }
+  };
+}
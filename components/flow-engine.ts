@@ -0,0 +1,387 @@
+// Pure helpers for interpreting declarative chat flows
+import type {
+  FlowAnswerRecord,
+  FlowDefinition,
+  FlowEvent,
+  FlowNode,
+  FlowPresentableNode,
+  FlowReview,
+  FlowTransition,
+  FlowValues
+} from './flow-types';
+import type { ChangeItem } from './ui-modules/ChangeList';
+import type { ReviewSection } from './ui-modules/ReviewSummary';
+import type { ModuleDescriptor } from './ui-modules/registry';
+import { SECRET_KEY } from '../services/apiCallLog';
+
+const TEMPLATE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Replace {{key}} placeholders with collected values (missing keys become '')
+ */
+export function interpolate(template: string, values: FlowValues): string {
+  return template.replace(TEMPLATE_PATTERN, (_, key: string) => {
+    const value = values[key];
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * Resolve templates in every string of a module props object
+ */
+export function interpolateProps<T>(props: T, values: FlowValues): T {
+  if (typeof props === 'string') {
+    return interpolate(props, values) as unknown as T;
+  }
+  if (Array.isArray(props)) {
+    return props.map(item => interpolateProps(item, values)) as unknown as T;
+  }
+  if (props && typeof props === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(props)) {
+      result[key] = interpolateProps(value, values);
+    }
+    return result as T;
+  }
+  return props;
+}
+
+/**
+ * Step id used for completion and locking
+ */
+export function getStepId(node: FlowNode): string {
+  return node.stepId || node.id;
+}
+
+export function isPresentable(node: FlowNode): node is FlowPresentableNode {
+  return node.type === 'question' || node.type === 'form' || node.type === 'display';
+}
+
+export function getNode(flow: FlowDefinition, nodeId: string): FlowNode {
+  const node = flow.nodes[nodeId];
+  if (!node) {
+    throw new Error(`Flow "${flow.id}" has no node "${nodeId}"`);
+  }
+  return node;
+}
+
+/**
+ * Pick the branch target for the value the branch node routes on
+ */
+export function resolveBranch(node: Extract<FlowNode, { type: 'branch' }>, values: FlowValues): string {
+  const value = values[node.on];
+  return (value !== undefined && node.cases[String(value)]) || node.default;
+}
+
+/**
+ * Nodes a node can lead to, whatever the answer
+ */
+export function getSuccessors(node: FlowNode): string[] {
+  const targets: Array<string | undefined> = [];
+  switch (node.type) {
+    case 'question':
+      targets.push(node.next, ...Object.values(node.answers || {}).map(answer => answer.next));
+      break;
+    case 'form':
+    case 'action':
+      targets.push(node.next);
+      break;
+    case 'display':
+      targets.push(
+        ...(node.actions || []).map(action => action.next),
+        ...Object.values(node.moduleActions || {}).map(transition => transition.next),
+        node.upload?.next,
+        node.advance?.next
+      );
+      break;
+    case 'branch':
+      targets.push(...Object.values(node.cases), node.default);
+      break;
+  }
+  return targets.filter((target): target is string => Boolean(target));
+}
+
+/**
+ * Every node reachable from `start`, including itself
+ */
+export function getReachableNodes(flow: FlowDefinition, start: string): Set<string> {
+  const reached = new Set<string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (reached.has(nodeId)) continue;
+    reached.add(nodeId);
+    queue.push(...getSuccessors(getNode(flow, nodeId)));
+  }
+  return reached;
+}
+
+export interface ResolvedAnswer {
+  transition: FlowTransition;
+  /** Values to merge into the flow state */
+  updates: FlowValues;
+  /** Extra template values for the reply only */
+  locals: FlowValues;
+  /** Whether the answer advances the flow (and therefore completes the step) */
+  advances: boolean;
+}
+
+/**
+ * Map an event raised by a rendered node onto its transition.
+ * Returns null when the node does not handle the event.
+ */
+export function resolveAnswer(node: FlowNode, event: FlowEvent): ResolvedAnswer | null {
+  switch (node.type) {
+    case 'question': {
+      if (event.type !== 'choice') return null;
+      const choices = node.modules?.find(module => module.kind === 'choices');
+      const option = (choices?.props.options as Array<{ id: string; label: string }> | undefined)
+        ?.find(candidate => candidate.id === event.value);
+      const answer = node.answers?.[event.value] || {};
+      const transition: FlowTransition = {
+        reply: answer.reply ?? node.reply ?? '{{label}}',
+        next: answer.next ?? node.next
+      };
+      return {
+        transition,
+        updates: { [node.field || node.id]: event.value },
+        locals: { label: option?.label ?? event.value },
+        advances: true
+      };
+    }
+    case 'form': {
+      if (event.type !== 'submit') return null;
+      return {
+        transition: { reply: node.reply, next: node.next },
+        updates: node.field ? { ...event.data, [node.field]: event.data } : { ...event.data },
+        locals: {},
+        advances: true
+      };
+    }
+    case 'display': {
+      if (event.type === 'button') {
+        const button = node.actions?.find(action => action.id === event.id);
+        if (!button) return null;
+        return {
+          transition: { reply: button.reply ?? button.label, next: button.next },
+          updates: {},
+          locals: {},
+          advances: Boolean(button.next)
+        };
+      }
+      if (event.type === 'module-action') {
+        const transition = node.moduleActions?.[event.id];
+        if (!transition) return null;
+        return { transition, updates: {}, locals: {}, advances: Boolean(transition.next) };
+      }
+      if (event.type === 'upload' && node.upload) {
+        const fileName = event.files[0]?.name || '';
+        return {
+          transition: node.upload,
+          updates: { fileName },
+          locals: { fileName },
+          advances: Boolean(node.upload.next)
+        };
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+interface FieldDescription {
+  label: string;
+  format: (value: any) => string;
+}
+
+const MASKED_VALUE = '••••••••';
+
+/**
+ * Label and value formatting for a value collected by a node: form fields use
+ * their field label, choices the question title and option labels
+ */
+function describeField(node: FlowNode, key: string): FieldDescription {
+  const modules = isPresentable(node) ? node.modules || [] : [];
+  const plain = (value: any) => (typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value));
+
+  for (const module of modules) {
+    if (module.kind === 'form') {
+      const fields = module.props.sections?.flatMap(section => section.fields) || module.props.fields || [];
+      const field = fields.find(candidate => candidate.id === key);
+      if (!field) continue;
+      const options = 'options' in field ? field.options : undefined;
+      return {
+        label: field.label,
+        format: field.type === 'password' || SECRET_KEY.test(field.id) || SECRET_KEY.test(field.label)
+          ? () => MASKED_VALUE
+          : (value) => options?.find(option => option.value === value)?.label ?? plain(value)
+      };
+    }
+    if (module.kind === 'choices' && node.type === 'question' && (node.field || node.id) === key) {
+      const options = module.props.options as Array<{ id: string; label: string }>;
+      return {
+        label: module.props.title || key,
+        format: (value) => options.find(option => option.id === value)?.label ?? plain(value)
+      };
+    }
+  }
+  return { label: key, format: plain };
+}
+
+/**
+ * Describe how the values an answer contributed changed. Values that are only
+ * on one side are reported as added or removed.
+ */
+export function describeChanges(node: FlowNode, before: FlowValues, after: FlowValues): ChangeItem[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: ChangeItem[] = [];
+
+  keys.forEach(key => {
+    const previous = before[key];
+    const next = after[key];
+    // Nested copies of form data (a form node's `field`) repeat the flat values
+    if (typeof previous === 'object' || typeof next === 'object') return;
+    if (previous === next) return;
+
+    const { label, format } = describeField(node, key);
+    changes.push({
+      id: `${node.id}.${key}`,
+      label,
+      before: previous === undefined ? undefined : format(previous),
+      after: next === undefined ? undefined : format(next)
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Keys a node stores its answer under: a question's field, or the fields of
+ * its form
+ */
+function getAnswerKeys(node: FlowNode): string[] {
+  if (node.type === 'question') return [node.field || node.id];
+  if (node.type !== 'form') return [];
+  return (node.modules || []).flatMap(module => {
+    if (module.kind !== 'form') return [];
+    const fields = module.props.sections?.flatMap(section => section.fields) || module.props.fields || [];
+    return fields.map(field => field.id);
+  });
+}
+
+/**
+ * Answers for the questions and forms that `values` fully answers: a choice
+ * among the question's options, or every required field of a form. Used to
+ * start a flow from known settings; the engine skips nodes answered this way
+ * when the path reaches them.
+ */
+export function buildPrefilledAnswers(flow: FlowDefinition, values: FlowValues): FlowAnswerRecord[] {
+  return Object.values(flow.nodes).flatMap(node => {
+    let event: FlowEvent | null = null;
+
+    if (node.type === 'question') {
+      const value = values[node.field || node.id];
+      const choices = node.modules?.find(module => module.kind === 'choices');
+      const options = (choices?.props.options as Array<{ id: string }> | undefined) || [];
+      if (options.some(option => option.id === value)) event = { type: 'choice', value };
+    } else if (node.type === 'form') {
+      const fields = (node.modules || []).flatMap(module => (
+        module.kind === 'form' ? module.props.sections?.flatMap(section => section.fields) || module.props.fields || [] : []
+      ));
+      const given = fields.filter(field => values[field.id] !== undefined);
+      if (given.length > 0 && fields.every(field => !('required' in field && field.required) || values[field.id] !== undefined)) {
+        event = { type: 'submit', data: Object.fromEntries(given.map(field => [field.id, values[field.id]])) };
+      }
+    }
+
+    const answer = event && resolveAnswer(node, event);
+    return answer ? [{ nodeId: node.id, updates: answer.updates, next: answer.transition.next }] : [];
+  });
+}
+
+/**
+ * Fill a review recap from the collected values. Each section links back to
+ * the first of its nodes that was answered.
+ */
+export function buildReviewSections(flow: FlowDefinition, review: FlowReview, values: FlowValues): ReviewSection[] {
+  return review.sections.flatMap(section => {
+    let editTarget: string | undefined;
+    const items = section.nodes.flatMap(nodeId => {
+      const node = getNode(flow, nodeId);
+      const keys = getAnswerKeys(node).filter(key =>
+        values[key] !== undefined && (!section.fields || section.fields.includes(key))
+      );
+      if (keys.length > 0 && !editTarget) editTarget = node.id;
+
+      return keys.map(key => {
+        const { label, format } = describeField(node, key);
+        return { id: `${node.id}.${key}`, label, value: format(values[key]) };
+      });
+    });
+
+    return items.length > 0 ? [{ id: section.id, title: section.title, items, editTarget }] : [];
+  });
+}
+
+/**
+ * Show a recorded answer in the module that collected it. Modules read these
+ * values on mount, so callers remount the view when the answer changes.
+ */
+function withAnswer(module: ModuleDescriptor, node: FlowPresentableNode, answer: FlowValues): ModuleDescriptor {
+  const fill = <T extends { id: string }>(field: T): T =>
+    answer[field.id] === undefined ? field : { ...field, value: answer[field.id] };
+
+  if (module.kind === 'form') {
+    const { fields, sections } = module.props;
+    return {
+      ...module,
+      props: {
+        ...module.props,
+        fields: fields?.map(fill),
+        sections: sections?.map(section => ({ ...section, fields: section.fields.map(fill) }))
+      }
+    };
+  }
+  if (module.kind === 'choices' && node.type === 'question') {
+    const value = answer[node.field || node.id];
+    return value === undefined ? module : { ...module, props: { ...module.props, value } };
+  }
+  return module;
+}
+
+/**
+ * Modules a node presents: its own modules with templates resolved and the
+ * recorded answer filled in, a review recap, then its buttons
+ */
+export function getNodeModules(
+  flow: FlowDefinition,
+  node: FlowPresentableNode,
+  values: FlowValues,
+  answer?: FlowValues
+): ModuleDescriptor[] {
+  const modules: ModuleDescriptor[] = (node.modules || []).map(module => {
+    const resolved = interpolateProps(module, values);
+    return answer ? withAnswer(resolved, node, answer) : resolved;
+  });
+
+  // Review nodes recap the values collected so far
+  if (node.type === 'display' && node.review) {
+    const { title, description } = node.review;
+    modules.push({
+      kind: 'review',
+      props: { title, description, sections: buildReviewSections(flow, node.review, values) }
+    });
+  }
+
+  if (node.actions?.length) {
+    modules.push({
+      kind: 'actions',
+      props: {
+        buttons: node.actions.map(({ id, label, icon, variant }) => ({ id, label, icon, variant }))
+      }
+    });
+  }
+
+  return modules;
+}
@@ -0,0 +1,89 @@
+// Step completion funnel for a flow, built from chat events
+import type { ChatEvent } from '../services/eventBus';
+import { CLIENT_SETUP_STEPS } from './chat-constants';
+
+export interface FunnelStep {
+  id: string;
+  title: string;
+  /** Flow steps whose completion completes this funnel step */
+  stepIds: string[];
+}
+
+export interface FunnelStepStats {
+  id: string;
+  title: string;
+  /** Runs that completed the step */
+  completed: number;
+  /** completed / started, 0 when nothing started */
+  rate: number;
+  /** Abandoned runs for which this was the first step left incomplete */
+  dropped: number;
+}
+
+export interface FlowFunnel {
+  flowId: string;
+  started: number;
+  abandoned: number;
+  steps: FunnelStepStats[];
+}
+
+// Flow steps that complete each overview step. The guided flow confirms the
+// review before it creates the client, so Review comes before Creation here.
+const CLIENT_SETUP_FUNNEL_ORDER = ['basic-info', 'delivery-method', 'configuration', 'review', 'creation'];
+const CLIENT_SETUP_STEP_IDS: Record<string, string[]> = {
+  'configuration': ['configuration', 'delivery-config'],
+  'review': ['review-setup']
+};
+
+export const CLIENT_SETUP_FUNNEL: FunnelStep[] = CLIENT_SETUP_FUNNEL_ORDER.map(id => ({
+  id,
+  title: CLIENT_SETUP_STEPS.find(step => step.id === id)?.title ?? id,
+  stepIds: CLIENT_SETUP_STEP_IDS[id] || [id]
+}));
+
+/**
+ * Count how many runs of a flow completed each step and where abandoned runs
+ * stopped. Step events of runs whose start is no longer in the log are
+ * ignored.
+ */
+export function buildFlowFunnel(events: ChatEvent[], flowId: string, steps: FunnelStep[]): FlowFunnel {
+  const runs = new Map<string, { completed: Set<string>; abandoned: boolean }>();
+
+  events.forEach(event => {
+    if (event.type === 'flow_started' && event.data.flowId === flowId) {
+      runs.set(event.data.runId, { completed: new Set(), abandoned: false });
+    } else if (event.type === 'step_completed') {
+      runs.get(event.data.runId)?.completed.add(event.data.stepId);
+    } else if (event.type === 'step_abandoned') {
+      const run = runs.get(event.data.runId);
+      if (run) run.abandoned = true;
+    }
+  });
+
+  const started = runs.size;
+  const isComplete = (run: { completed: Set<string> }, step: FunnelStep) =>
+    step.stepIds.some(stepId => run.completed.has(stepId));
+
+  const dropped = new Map<string, number>();
+  runs.forEach(run => {
+    if (!run.abandoned) return;
+    const stoppedAt = steps.find(step => !isComplete(run, step));
+    if (stoppedAt) dropped.set(stoppedAt.id, (dropped.get(stoppedAt.id) || 0) + 1);
+  });
+
+  return {
+    flowId,
+    started,
+    abandoned: [...runs.values()].filter(run => run.abandoned).length,
+    steps: steps.map(step => {
+      const completed = [...runs.values()].filter(run => isComplete(run, step)).length;
+      return {
+        id: step.id,
+        title: step.title,
+        completed,
+        rate: started > 0 ? completed / started : 0,
+        dropped: dropped.get(step.id) || 0
+      };
+    })
+  };
+}
@@ -0,0 +1,305 @@
+// Headless runs of declarative flows from a script of user inputs
+import { interpolate, resolveAnswer } from './flow-engine';
+import { createFlowRunner, type FlowEngineHost } from './flow-runner';
+import { FLOWS } from './flows';
+import type { FlowDefinition, FlowEvent, FlowMessageRef, FlowRevision, FlowValues } from './flow-types';
+import { VirtualClock } from '../services/clock';
+
+/**
+ * One scripted user input. Flow events answer whichever node is pending;
+ * `revise` edits the answer given at an earlier node, like the Edit button;
+ * `wait` lets virtual time pass without answering.
+ */
+export type FlowScriptStep =
+  | Exclude<FlowEvent, { type: 'edit' }>
+  | { type: 'revise'; nodeId: string; event: FlowEvent }
+  | { type: 'wait'; ms: number };
+
+export interface FlowScriptMessage {
+  sender: 'user' | 'assistant';
+  content: string;
+  /** Node that presented the assistant turn */
+  nodeId?: string;
+  /** Virtual time the message appeared at */
+  at: number;
+  /** Outdated after an edit */
+  superseded?: boolean;
+}
+
+export interface FlowScriptResult {
+  flowId: string;
+  messages: FlowScriptMessage[];
+  completedSteps: string[];
+  currentStep: string | null;
+  /** Node waiting for an answer, null once the flow ended */
+  pendingNode: string | null;
+  values: FlowValues;
+  revisions: FlowRevision[];
+  /** Actions that failed, as "action: message" */
+  actionErrors: string[];
+  ended: boolean;
+  /** Virtual milliseconds the run took */
+  elapsed: number;
+}
+
+/** Handlers for action nodes; resolved values are merged into the flow values */
+export type FlowScriptActions = Record<string, (values: FlowValues) => FlowValues | void | Promise<FlowValues | void>>;
+
+export interface FlowScriptOptions {
+  initialValues?: FlowValues;
+  /** Answers taken as given, e.g. defaults copied from an existing client */
+  prefill?: FlowValues;
+  actions?: FlowScriptActions;
+  flows?: Record<string, FlowDefinition>;
+}
+
+/**
+ * What a run should have produced. Lists are compared in full and in order;
+ * `values` only checks the keys it names.
+ */
+export interface FlowScriptExpectation {
+  /** Nodes presented by assistant turns */
+  nodes?: string[];
+  /** User messages echoed by the flow */
+  replies?: string[];
+  completedSteps?: string[];
+  currentStep?: string | null;
+  pendingNode?: string | null;
+  values?: FlowValues;
+  /** Failed actions; any failure is a mismatch unless listed here */
+  actionErrors?: string[];
+  ended?: boolean;
+}
+
+export interface FlowScenario {
+  name: string;
+  flowId: string;
+  steps: FlowScriptStep[];
+  expect: FlowScriptExpectation;
+  options?: FlowScriptOptions;
+}
+
+export interface FlowScenarioOutcome {
+  name: string;
+  passed: boolean;
+  failures: string[];
+  result: FlowScriptResult | null;
+}
+
+/**
+ * A script step could not be applied, e.g. it answers a node that is not
+ * pending or sends an event the node does not take
+ */
+export class FlowScriptError extends Error {
+  constructor(message: string, public readonly step: number) {
+    super(`Step ${step + 1}: ${message}`);
+    this.name = 'FlowScriptError';
+  }
+}
+
+/**
+ * Run a flow from its first node, feeding it the script one step at a
+ * time. Timers run on a virtual clock that is drained after every step, so
+ * delays and timed advances cost nothing and always fire in the same order.
+ */
+export async function runFlowScript(
+  flowId: string,
+  steps: FlowScriptStep[],
+  { initialValues = {}, prefill, actions = {}, flows = FLOWS }: FlowScriptOptions = {}
+): Promise<FlowScriptResult> {
+  const clock = new VirtualClock();
+  const messages: Array<FlowScriptMessage & { ref?: FlowMessageRef }> = [];
+  const completed = new Set<string>();
+  const revisions: FlowRevision[] = [];
+  const actionErrors: string[] = [];
+  let currentStep: string | null = null;
+  let ended = false;
+
+  const host: FlowEngineHost = {
+    presentNode: (ref, node) => {
+      messages.push({ sender: 'assistant', content: interpolate(node.content, ref.values), nodeId: node.id, at: clock.now(), ref });
+    },
+    echo: (text) => {
+      messages.push({ sender: 'user', content: text, at: clock.now() });
+    },
+    completeStep: (_, stepId) => {
+      completed.add(stepId);
+    },
+    resetSteps: (_, stepIds) => {
+      completed.clear();
+      stepIds.forEach(stepId => completed.add(stepId));
+    },
+    setCurrentStep: (stepId) => {
+      currentStep = stepId;
+    },
+    schedule: (fn, delay) => {
+      clock.setTimeout(fn, delay);
+    },
+    runAction: async (action, values) => {
+      const handler = actions[action];
+      if (!handler) throw new Error(`Unknown flow action "${action}"`);
+      return handler(values);
+    },
+    onFlowEnd: () => {
+      ended = true;
+    },
+    onActionError: (action, error) => {
+      actionErrors.push(`${action}: ${error instanceof Error ? error.message : String(error)}`);
+    },
+    onRevise: (revision) => {
+      revisions.push(revision);
+      messages.forEach(message => {
+        if (message.ref?.run === revision.run && revision.superseded.includes(message.ref.nodeId)) {
+          message.superseded = true;
+        }
+      });
+    }
+  };
+
+  const runner = createFlowRunner(() => host, flows);
+  if (!runner.startFlow(flowId, initialValues, prefill)) {
+    throw new Error(`No flow registered for "${flowId}"`);
+  }
+  await clock.runAll();
+
+  // Latest message presented for a node in the running flow
+  const findRef = (nodeId: string) =>
+    [...messages].reverse().find(message => message.ref?.nodeId === nodeId && !message.superseded)?.ref;
+
+  for (const [index, step] of steps.entries()) {
+    if (step.type === 'wait') {
+      await clock.advance(step.ms);
+      continue;
+    }
+
+    const snapshot = runner.getSnapshot();
+    if (step.type === 'revise') {
+      const ref = findRef(step.nodeId);
+      if (!ref || !runner.canReviseAnswer(ref)) {
+        throw new FlowScriptError(`the answer at "${step.nodeId}" cannot be edited`, index);
+      }
+      if (!runner.reviseAnswer(ref, step.event)) {
+        throw new FlowScriptError(`editing "${step.nodeId}" changed nothing`, index);
+      }
+    } else {
+      const pending = snapshot?.current;
+      const ref = pending && snapshot?.presented ? findRef(pending) : undefined;
+      if (!pending || !ref) {
+        throw new FlowScriptError(`no question is waiting for "${step.type}"`, index);
+      }
+      const node = runner.getFlowNode(ref)!;
+      if (!resolveAnswer(node, step)) {
+        throw new FlowScriptError(`"${node.id}" does not take ${describeEvent(step)}`, index);
+      }
+      runner.handleEvent(ref, step);
+    }
+    await clock.runAll();
+  }
+
+  const snapshot = runner.getSnapshot();
+  const pendingNode = !ended && snapshot?.current ? snapshot.current : null;
+
+  return {
+    flowId,
+    messages: messages.map(({ ref, ...message }) => message),
+    completedSteps: [...completed],
+    currentStep,
+    pendingNode,
+    values: snapshot?.values ?? {},
+    revisions,
+    actionErrors,
+    ended,
+    elapsed: clock.now()
+  };
+}
+
+function describeEvent(event: FlowEvent): string {
+  switch (event.type) {
+    case 'choice': return `the choice "${event.value}"`;
+    case 'button': return `the button "${event.id}"`;
+    case 'module-action': return `the module action "${event.id}"`;
+    default: return `a ${event.type} event`;
+  }
+}
+
+function sameList(actual: Array<string | undefined>, expected: string[]): boolean {
+  return actual.length === expected.length && actual.every((item, index) => item === expected[index]);
+}
+
+/**
+ * Compare a run with what was expected. Returns one line per mismatch;
+ * empty when the run matches.
+ */
+export function checkFlowScript(result: FlowScriptResult, expected: FlowScriptExpectation): string[] {
+  const failures: string[] = [];
+  const show = (value: unknown) => JSON.stringify(value);
+
+  if (expected.nodes) {
+    const nodes = result.messages.filter(message => message.nodeId).map(message => message.nodeId);
+    if (!sameList(nodes, expected.nodes)) {
+      failures.push(`nodes: expected ${show(expected.nodes)}, got ${show(nodes)}`);
+    }
+  }
+  if (expected.replies) {
+    const replies = result.messages.filter(message => message.sender === 'user').map(message => message.content);
+    if (!sameList(replies, expected.replies)) {
+      failures.push(`replies: expected ${show(expected.replies)}, got ${show(replies)}`);
+    }
+  }
+  if (expected.completedSteps) {
+    const steps = [...result.completedSteps].sort();
+    const wanted = [...expected.completedSteps].sort();
+    if (!sameList(steps, wanted)) {
+      failures.push(`completed steps: expected ${show(wanted)}, got ${show(steps)}`);
+    }
+  }
+  if (expected.currentStep !== undefined && result.currentStep !== expected.currentStep) {
+    failures.push(`current step: expected ${show(expected.currentStep)}, got ${show(result.currentStep)}`);
+  }
+  if (expected.pendingNode !== undefined && result.pendingNode !== expected.pendingNode) {
+    failures.push(`pending node: expected ${show(expected.pendingNode)}, got ${show(result.pendingNode)}`);
+  }
+  Object.entries(expected.values || {}).forEach(([key, value]) => {
+    if (show(result.values[key]) !== show(value)) {
+      failures.push(`value "${key}": expected ${show(value)}, got ${show(result.values[key])}`);
+    }
+  });
+  if (expected.ended !== undefined && result.ended !== expected.ended) {
+    failures.push(`ended: expected ${expected.ended}, got ${result.ended}`);
+  }
+  if (!sameList(result.actionErrors, expected.actionErrors || [])) {
+    failures.push(`action errors: expected ${show(expected.actionErrors || [])}, got ${show(result.actionErrors)}`);
+  }
+
+  return failures;
+}
+
+/**
+ * Run a scenario and check it. Script errors are reported as failures.
+ */
+export async function runFlowScenario(scenario: FlowScenario): Promise<FlowScenarioOutcome> {
+  try {
+    const result = await runFlowScript(scenario.flowId, scenario.steps, scenario.options);
+    const failures = checkFlowScript(result, scenario.expect);
+    return { name: scenario.name, passed: failures.length === 0, failures, result };
+  } catch (error) {
+    return {
+      name: scenario.name,
+      passed: false,
+      failures: [error instanceof Error ? error.message : String(error)],
+      result: null
+    };
+  }
+}
+
+/**
+ * Run scenarios one after another and log a pass/fail table
+ */
+export async function runFlowScenarios(scenarios: FlowScenario[]): Promise<FlowScenarioOutcome[]> {
+  const outcomes: FlowScenarioOutcome[] = [];
+  for (const scenario of scenarios) {
+    outcomes.push(await runFlowScenario(scenario));
+  }
+  console.table(outcomes.map(({ name, passed, failures }) => ({ name, passed, failures: failures.join('\n') })));
+  return outcomes;
+}
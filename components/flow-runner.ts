@@ -0,0 +1,467 @@
+// Runs declarative flows; the chat drives it through useFlowEngine
+import {
+  buildPrefilledAnswers,
+  describeChanges,
+  getNode,
+  getReachableNodes,
+  getStepId,
+  interpolate,
+  resolveAnswer,
+  resolveBranch,
+  type ResolvedAnswer
+} from './flow-engine';
+import { FLOWS } from './flows';
+import type {
+  FlowAnswerRecord,
+  FlowDefinition,
+  FlowEvent,
+  FlowMessageRef,
+  FlowNode,
+  FlowPresentableNode,
+  FlowRevision,
+  FlowRunSnapshot,
+  FlowValues
+} from './flow-types';
+
+const DEFAULT_NODE_DELAY = 500;
+
+/**
+ * Chat operations the engine drives. Read through getHost on every call, so
+ * callers can swap it (e.g. every render) without restarting the flow.
+ */
+export interface FlowEngineHost {
+  /** Show an assistant turn for a presented node */
+  presentNode: (ref: FlowMessageRef, node: FlowPresentableNode) => void;
+  /** Echo the user's answer */
+  echo: (text: string) => void;
+  completeStep: (flowId: string, stepId: string) => void;
+  /** Replace a flow's completed steps after an edit invalidated some */
+  resetSteps: (flowId: string, stepIds: string[]) => void;
+  setCurrentStep: (stepId: string) => void;
+  /** Session-guarded timeout */
+  schedule: (fn: () => void, delay: number) => void;
+  /** Run an action node; resolved values are merged into the flow values */
+  runAction: (action: string, values: FlowValues) => Promise<FlowValues | void>;
+  /** Called before a node is shown (e.g. to reset form derivations) */
+  onEnterNode?: (node: FlowPresentableNode) => void;
+  onFlowEnd: (flowId: string) => void;
+  /** An action node failed; the flow stays on it until it is retried or an answer is edited */
+  onActionError?: (action: string, error: unknown) => void;
+  /**
+   * A restored run was in the middle of an action that is not repeatable.
+   * It is not run again; the flow stays on it as if it had failed.
+   */
+  onActionInterrupted?: (action: string) => void;
+  /** An earlier answer was edited */
+  onRevise: (revision: FlowRevision) => void;
+}
+
+interface FlowRunState {
+  flow: FlowDefinition | null;
+  run: number;
+  values: FlowValues;
+  /** Answers given in this run, in order; also guards against double submits */
+  answers: FlowAnswerRecord[];
+  /** Answers set aside by an edit or prefilled at start, reused if the path reaches their node */
+  retained: FlowAnswerRecord[];
+  current: string | null;
+  presented: boolean;
+  /** The pending action failed; earlier answers can be edited and the action run again */
+  failed: boolean;
+  /** Bumped when an answer is edited so pending timers of the old path stop */
+  revision: number;
+}
+
+function createRunState(run: number, flow: FlowDefinition | null = null): FlowRunState {
+  return { flow, run, values: {}, answers: [], retained: [], current: null, presented: false, failed: false, revision: 0 };
+}
+
+const isAnswered = (state: FlowRunState, nodeId: string) =>
+  state.answers.some(record => record.nodeId === nodeId);
+
+export type FlowRunner = ReturnType<typeof createFlowRunner>;
+
+/**
+ * Create a flow runner. It holds the state of one run at a time and has no
+ * timers of its own: delays go through the host's schedule, so whatever
+ * clock the host uses decides when nodes appear.
+ */
+export function createFlowRunner(getHost: () => FlowEngineHost, flows: Record<string, FlowDefinition> = FLOWS) {
+  // Mutable holder, so pending callbacks always see the latest run
+  const stateRef = { current: createRunState(0) };
+
+  const isActive = (flow: FlowDefinition, run: number, revision: number) =>
+    stateRef.current.flow === flow &&
+    stateRef.current.run === run &&
+    stateRef.current.revision === revision;
+
+  const enterNode = (nodeId: string) => {
+    const { flow, run, values, revision } = stateRef.current;
+    if (!flow) return;
+    const node = getNode(flow, nodeId);
+    const h = getHost();
+
+    if (node.type === 'branch') {
+      enterNode(resolveBranch(node, values));
+      return;
+    }
+
+    // Answers kept from before an edit (or prefilled) are reused instead of asked again
+    const retained = stateRef.current.retained.find(record => record.nodeId === node.id);
+    if (retained?.next) {
+      const state = stateRef.current;
+      state.retained = state.retained.filter(record => record !== retained);
+      state.answers.push(retained);
+      Object.assign(state.values, retained.updates);
+      h.completeStep(flow.id, getStepId(node));
+      node.completes?.forEach(stepId => h.completeStep(flow.id, stepId));
+      enterNode(retained.next);
+      return;
+    }
+
+    stateRef.current.current = node.id;
+    stateRef.current.presented = false;
+    stateRef.current.failed = false;
+
+    if (node.type === 'action') {
+      const stepId = getStepId(node);
+      h.setCurrentStep(stepId);
+      h.runAction(node.action, { ...values }).then(result => {
+        if (!isActive(flow, run, revision)) return;
+        if (result) Object.assign(stateRef.current.values, result);
+        getHost().completeStep(flow.id, stepId);
+        if (node.next) enterNode(node.next);
+      }, error => {
+        if (!isActive(flow, run, revision)) return;
+        stateRef.current.failed = true;
+        getHost().onActionError?.(node.action, error);
+      });
+      return;
+    }
+
+    presentNode(flow, run, node);
+  };
+
+  const presentNode = (flow: FlowDefinition, run: number, node: FlowPresentableNode) => {
+    const h = getHost();
+    const stepId = getStepId(node);
+    const { revision } = stateRef.current;
+    h.setCurrentStep(stepId);
+    h.onEnterNode?.(node);
+
+    h.schedule(() => {
+      if (!isActive(flow, run, revision)) return;
+      const ref: FlowMessageRef = {
+        flowId: flow.id,
+        nodeId: node.id,
+        run,
+        values: { ...stateRef.current.values }
+      };
+      stateRef.current.presented = true;
+      getHost().presentNode(ref, node);
+
+      if (node.type !== 'display') return;
+      scheduleAdvance(flow, run, node);
+      if (node.end) {
+        getHost().completeStep(flow.id, stepId);
+        getHost().onFlowEnd(flow.id);
+      }
+    }, node.delay ?? DEFAULT_NODE_DELAY);
+  };
+
+  const scheduleAdvance = (flow: FlowDefinition, run: number, node: FlowNode) => {
+    if (node.type !== 'display' || !node.advance) return;
+    const { after, ...transition } = node.advance;
+    const { revision } = stateRef.current;
+    getHost().schedule(() => {
+      if (!isActive(flow, run, revision)) return;
+      follow(flow, node, {
+        transition,
+        updates: {},
+        locals: {},
+        advances: Boolean(transition.next)
+      });
+    }, after);
+  };
+
+  const follow = (flow: FlowDefinition, node: FlowNode, answer: ResolvedAnswer) => {
+    const state = stateRef.current;
+    if (answer.advances) {
+      if (isAnswered(state, node.id)) return;
+      state.answers.push({ nodeId: node.id, updates: answer.updates, next: answer.transition.next });
+    }
+
+    Object.assign(state.values, answer.updates);
+
+    const h = getHost();
+    const { reply, next } = answer.transition;
+    if (reply) {
+      h.echo(interpolate(reply, { ...state.values, ...answer.locals }));
+    }
+
+    if (!answer.advances || !next) return;
+
+    h.completeStep(flow.id, getStepId(node));
+    node.completes?.forEach(stepId => h.completeStep(flow.id, stepId));
+    enterNode(next);
+  };
+
+  /**
+   * Replace the recorded answer for `node` and replay the answers after it.
+   * Answers still on the new path are kept; the replay stops at the first
+   * node without one, which is asked (again). Later answers the new path
+   * may still reach are retained, the rest are dropped. Returns false if
+   * nothing changed.
+   */
+  const revise = (flow: FlowDefinition, node: FlowNode, answer: ResolvedAnswer) => {
+    const state = stateRef.current;
+    const index = state.answers.findIndex(record => record.nodeId === node.id);
+    if (index < 0 || !answer.advances) return false;
+
+    const previous = state.answers[index];
+    const later = state.answers.slice(index + 1);
+    const next = answer.transition.next;
+    const changes = describeChanges(node, previous.updates, answer.updates);
+    if (changes.length === 0 && next === previous.next) return false;
+
+    // Rebuild the values from the answers before the edited one
+    const values = { ...state.values };
+    [previous, ...later].forEach(record => {
+      Object.keys(record.updates).forEach(key => delete values[key]);
+    });
+    Object.assign(values, answer.updates);
+
+    const answers: FlowAnswerRecord[] = [
+      ...state.answers.slice(0, index),
+      { nodeId: node.id, updates: answer.updates, next }
+    ];
+    const unreached = new Map([...state.retained, ...later].map(record => [record.nodeId, record]));
+
+    let cursor = next;
+    while (cursor) {
+      const target = getNode(flow, cursor);
+      if (target.type === 'branch') {
+        cursor = resolveBranch(target, values);
+        continue;
+      }
+      const record = unreached.get(target.id);
+      if (!record) break;
+      unreached.delete(target.id);
+      answers.push(record);
+      Object.assign(values, record.updates);
+      cursor = record.next;
+    }
+
+    const reachable = cursor ? getReachableNodes(flow, cursor) : new Set<string>();
+    const retained = [...unreached.values()].filter(record => reachable.has(record.nodeId));
+    const dropped = [...unreached.values()].filter(record => !reachable.has(record.nodeId));
+    const invalidated = dropped.map(record => record.nodeId);
+    const superseded = state.current && state.presented ? [...invalidated, state.current] : invalidated;
+
+    stateRef.current = {
+      ...state,
+      values,
+      answers,
+      retained,
+      current: null,
+      presented: false,
+      revision: state.revision + 1
+    };
+
+    const h = getHost();
+    const { reply } = answer.transition;
+    if (reply) {
+      h.echo(interpolate(reply, { ...values, ...answer.locals }));
+    }
+    // Retained answers keep their steps (and messages) locked until reused
+    h.resetSteps(flow.id, [...answers, ...retained].flatMap(record => {
+      const answered = getNode(flow, record.nodeId);
+      return [getStepId(answered), ...(answered.completes || [])];
+    }));
+    h.onRevise({
+      flowId: flow.id,
+      run: state.run,
+      nodeId: node.id,
+      changes: [
+        ...changes,
+        ...dropped.flatMap(record => describeChanges(getNode(flow, record.nodeId), record.updates, {}))
+      ],
+      invalidated,
+      superseded
+    });
+
+    if (cursor) enterNode(cursor);
+    return true;
+  };
+
+  /**
+   * Start a registered flow from its first node. Questions that `prefill`
+   * answers are skipped when reached, as if answered. `flow` replaces the
+   * registered definition for this run, e.g. one with the account's client
+   * fields. Returns false when no declarative flow exists for the id.
+   */
+  const startFlow = (flowId: string, initialValues: FlowValues = {}, prefill?: FlowValues, flow = flows[flowId]) => {
+    if (!flow) return false;
+
+    stateRef.current = {
+      ...createRunState(stateRef.current.run + 1, flow),
+      values: { ...initialValues },
+      retained: prefill ? buildPrefilledAnswers(flow, prefill) : []
+    };
+    enterNode(flow.start);
+    return true;
+  };
+
+  /**
+   * Route an event raised by a rendered node. Events from finished or
+   * superseded runs are ignored.
+   */
+  const handleEvent = (ref: FlowMessageRef, event: FlowEvent) => {
+    const { flow, run, current } = stateRef.current;
+    if (!flow || flow.id !== ref.flowId || run !== ref.run) return;
+    // Only the pending node takes answers; earlier ones are edited instead
+    if (ref.nodeId !== current) return;
+
+    const node = flow.nodes[ref.nodeId];
+    if (!node) return;
+
+    const answer = resolveAnswer(node, event);
+    if (answer) follow(flow, node, answer);
+  };
+
+  /**
+   * Whether the answer behind a message can be edited: it belongs to the
+   * running flow, was answered through a question or form, and the flow is
+   * not finished or running an action (a failed one can be answered around).
+   */
+  const canReviseAnswer = (ref: FlowMessageRef) => {
+    const state = stateRef.current;
+    const { flow, run, current } = state;
+    if (!flow || flow.id !== ref.flowId || run !== ref.run) return false;
+
+    const node = flow.nodes[ref.nodeId];
+    if (!node || (node.type !== 'question' && node.type !== 'form')) return false;
+
+    const pending = current ? flow.nodes[current] : undefined;
+    if ((pending?.type === 'action' && !state.failed) || (pending?.type === 'display' && pending.end)) return false;
+
+    return isAnswered(state, node.id);
+  };
+
+  /** Run the pending action again after it failed. Returns false when no action failed. */
+  const retryAction = () => {
+    const { flow, current, failed } = stateRef.current;
+    if (!flow || !current || !failed) return false;
+    enterNode(current);
+    return true;
+  };
+
+  /** Node whose recorded answer set field in the running flow */
+  const findAnswerNode = (field: string): string | undefined => {
+    return stateRef.current.answers.find(record => field in record.updates)?.nodeId;
+  };
+
+  /** Values recorded for a message's answer in the running flow */
+  const getAnswer = (ref: FlowMessageRef): FlowValues | undefined => {
+    const { flow, run, answers } = stateRef.current;
+    if (!flow || flow.id !== ref.flowId || run !== ref.run) return undefined;
+    return answers.find(record => record.nodeId === ref.nodeId)?.updates;
+  };
+
+  /**
+   * Answer an already answered node again. Downstream answers are replayed;
+   * see `revise`. Returns false when the edit was not applied.
+   */
+  const reviseAnswer = (ref: FlowMessageRef, event: FlowEvent) => {
+    if (!canReviseAnswer(ref)) return false;
+    const flow = stateRef.current.flow!;
+    const node = flow.nodes[ref.nodeId];
+
+    const answer = resolveAnswer(node, event);
+    return answer ? revise(flow, node, answer) : false;
+  };
+
+  const resetFlow = () => {
+    stateRef.current = createRunState(stateRef.current.run);
+  };
+
+  const getSnapshot = (): FlowRunSnapshot | null => {
+    const { flow, run, values, answers, retained, current, presented, failed } = stateRef.current;
+    if (!flow) return null;
+    return {
+      flowId: flow.id,
+      run,
+      values: { ...values },
+      answers: [...answers],
+      retained: [...retained],
+      current,
+      presented,
+      failed
+    };
+  };
+
+  /**
+   * Restore a saved run and pick up whatever was pending: re-enter a node
+   * that had not been shown yet and re-arm timed advances. An unfinished
+   * action is run again only when it is repeatable; others are reported to
+   * the host as interrupted and wait for a retry, like a failed action.
+   * `flow` is the definition the run started with, when not the registered one.
+   */
+  const restoreFlow = (snapshot: FlowRunSnapshot, flow = flows[snapshot.flowId]) => {
+    if (!flow) return;
+
+    stateRef.current = {
+      flow,
+      run: snapshot.run,
+      values: { ...snapshot.values },
+      answers: [...snapshot.answers],
+      retained: [...snapshot.retained],
+      current: snapshot.current,
+      presented: snapshot.presented,
+      failed: Boolean(snapshot.failed),
+      revision: 0
+    };
+
+    const node = snapshot.current ? flow.nodes[snapshot.current] : undefined;
+    if (!node || isAnswered(stateRef.current, node.id)) return;
+
+    if (node.type === 'action') {
+      if (snapshot.failed) return;
+      if (node.repeatable) {
+        enterNode(node.id);
+      } else {
+        stateRef.current.failed = true;
+        getHost().onActionInterrupted?.(node.action);
+      }
+    } else if (!snapshot.presented) {
+      enterNode(node.id);
+    } else {
+      scheduleAdvance(flow, snapshot.run, node);
+    }
+  };
+
+  /** Definition of the flow: the current run's, or the registered one */
+  const getFlow = (flowId: string): FlowDefinition | undefined => {
+    const { flow } = stateRef.current;
+    return flow?.id === flowId ? flow : flows[flowId];
+  };
+
+  const getFlowNode = (ref: FlowMessageRef): FlowNode | undefined => {
+    return getFlow(ref.flowId)?.nodes[ref.nodeId];
+  };
+
+  return {
+    startFlow,
+    handleEvent,
+    resetFlow,
+    getSnapshot,
+    restoreFlow,
+    getFlow,
+    getFlowNode,
+    canReviseAnswer,
+    getAnswer,
+    reviseAnswer,
+    retryAction,
+    findAnswerNode
+  };
+}
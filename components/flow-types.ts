@@ -0,0 +1,210 @@
+// Type definitions for declarative chat flows
+import type { ChatCommand, SuggestedAction } from './chat-types';
+import type { ModuleDescriptor } from './ui-modules/registry';
+import type { ChangeItem } from './ui-modules/ChangeList';
+
+/**
+ * Values collected while a flow runs. Choice answers are stored under the
+ * node's `field` (or node id), form submissions are merged in field by field.
+ */
+export type FlowValues = Record<string, any>;
+
+/**
+ * A module described as data. String props support {{value}} templates
+ * which are resolved against the flow values at render time.
+ */
+export type FlowModuleSpec = ModuleDescriptor;
+
+/** Icons available to flow buttons */
+export type FlowIcon = 'ArrowRight' | 'Download';
+
+/**
+ * Where to go after an answer. `reply` is echoed as the user's message
+ * (templated); an empty string suppresses the echo.
+ */
+export interface FlowTransition {
+  reply?: string;
+  next?: string;
+}
+
+export interface FlowButton extends FlowTransition {
+  id: string;
+  label: string;
+  icon?: FlowIcon;
+  variant?: 'default' | 'outline';
+}
+
+/** Commands the host executes for suggested actions on terminal nodes */
+export type FlowCommand = ChatCommand;
+
+export interface FlowSuggestion {
+  id: string;
+  label: string;
+  variant?: SuggestedAction['variant'];
+  command: FlowCommand;
+}
+
+interface FlowNodeBase {
+  id: string;
+  /** Step used for completion/locking; defaults to the node id */
+  stepId?: string;
+  /** Extra steps marked completed when this node is answered */
+  completes?: string[];
+  /** Delay before the assistant turn appears (ms) */
+  delay?: number;
+}
+
+interface FlowPresentedNode extends FlowNodeBase {
+  /** Assistant copy, supports {{value}} templates */
+  content: string;
+  modules?: FlowModuleSpec[];
+  actions?: FlowButton[];
+  suggestedActions?: FlowSuggestion[];
+  /** Completed terminal summaries stay interactive */
+  lockable?: boolean;
+}
+
+/** Single-choice question rendered as a ChoiceList */
+export interface FlowQuestionNode extends FlowPresentedNode {
+  type: 'question';
+  field?: string;
+  /** Default echo template; {{label}} is the chosen option label */
+  reply?: string;
+  /** Fallback destination for answers without their own `next` */
+  next?: string;
+  answers?: Record<string, FlowTransition>;
+}
+
+/** Form whose submitted values are merged into the flow values */
+export interface FlowFormNode extends FlowPresentedNode {
+  type: 'form';
+  field?: string;
+  reply: string;
+  next?: string;
+}
+
+/**
+ * Section of a review recap. Lists the values collected by `nodes` (limited
+ * to `fields` when given); sections without values are left out.
+ */
+export interface FlowReviewSection {
+  id: string;
+  title: string;
+  nodes: string[];
+  fields?: string[];
+}
+
+export interface FlowReview {
+  title?: string;
+  description?: string;
+  sections: FlowReviewSection[];
+}
+
+/** Rendered modules advanced by buttons, uploads, module actions or a timer */
+export interface FlowDisplayNode extends FlowPresentedNode {
+  type: 'display';
+  /** Recap of the collected values, rendered after the node's modules */
+  review?: FlowReview;
+  moduleActions?: Record<string, FlowTransition>;
+  /** Transition when a FileDrop starts uploading; {{fileName}} is available */
+  upload?: FlowTransition;
+  advance?: FlowTransition & { after: number };
+  /** Terminal node: finishes the flow once shown */
+  end?: boolean;
+}
+
+/** Routes on a collected value without showing anything */
+export interface FlowBranchNode extends FlowNodeBase {
+  type: 'branch';
+  on: string;
+  cases: Record<string, string>;
+  default: string;
+}
+
+/** Runs a host action (API call, processing state) and continues */
+export interface FlowActionNode extends FlowNodeBase {
+  type: 'action';
+  action: string;
+  next?: string;
+  /**
+   * Safe to run again when a run saved in the middle of it is restored,
+   * e.g. because it only reads. Other actions are reported as interrupted
+   * instead, since they may already have changed something.
+   */
+  repeatable?: boolean;
+}
+
+export type FlowNode =
+  | FlowQuestionNode
+  | FlowFormNode
+  | FlowDisplayNode
+  | FlowBranchNode
+  | FlowActionNode;
+
+export type FlowPresentableNode = FlowQuestionNode | FlowFormNode | FlowDisplayNode;
+
+export interface FlowDefinition {
+  id: string;
+  start: string;
+  nodes: Record<string, FlowNode>;
+}
+
+/** Events raised by a rendered node */
+export type FlowEvent =
+  | { type: 'choice'; value: string }
+  | { type: 'submit'; data: Record<string, any> }
+  | { type: 'upload'; files: File[] }
+  | { type: 'button'; id: string }
+  | { type: 'module-action'; id: string }
+  /** Request to edit the answer given at an earlier node (review links) */
+  | { type: 'edit'; nodeId: string };
+
+/** Reference stored on messages rendered from a flow node */
+export interface FlowMessageRef {
+  flowId: string;
+  nodeId: string;
+  /** Run the message belongs to; events from earlier runs are ignored */
+  run: number;
+  /** Values the node was presented with, used to resolve its templates */
+  values: FlowValues;
+}
+
+/**
+ * An answer given during a run, in the order it was given. Kept so an earlier
+ * answer can be edited and the answers after it replayed.
+ */
+export interface FlowAnswerRecord {
+  nodeId: string;
+  /** Values the answer contributed */
+  updates: FlowValues;
+  /** Node the answer led to (branches are resolved again on replay) */
+  next?: string;
+}
+
+/** Outcome of editing an earlier answer */
+export interface FlowRevision {
+  flowId: string;
+  run: number;
+  nodeId: string;
+  /** Values changed by the edit, including answers that no longer apply */
+  changes: ChangeItem[];
+  /** Answered nodes that are off the new path; asked again if reached */
+  invalidated: string[];
+  /** Nodes whose messages are outdated: the invalidated ones and the pending one */
+  superseded: string[];
+}
+
+/** Serializable engine state, saved alongside the conversation */
+export interface FlowRunSnapshot {
+  flowId: string;
+  run: number;
+  values: FlowValues;
+  answers: FlowAnswerRecord[];
+  retained: FlowAnswerRecord[];
+  /** Node most recently entered (null once nothing is pending) */
+  current: string | null;
+  /** Whether the current node's assistant turn has been shown */
+  presented: boolean;
+  /** Whether the current action failed or was interrupted */
+  failed?: boolean;
+}
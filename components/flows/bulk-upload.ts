@@ -0,0 +1,191 @@
+// Bulk client upload flow ("bulk-client-upload")
+import { BULK_UPLOAD_STEPS } from '../chat-constants';
+import type { FlowDefinition, FlowNode } from '../flow-types';
+import { generateSecurePassword, generateUsernameFromEmail } from '../chat-utils';
+import type { ClientFieldDefinition, NewClient } from '../../services/leadexecApi';
+
+const nodes: FlowNode[] = [
+  {
+    id: 'overview',
+    type: 'display',
+    delay: 0,
+    content: 'I\'ll help you upload multiple clients at once using a CSV file. Each row becomes a client in LeadExec, with a username and secure password generated for it.',
+    modules: [{
+      kind: 'steps',
+      props: {
+        variant: 'overview',
+        steps: [...BULK_UPLOAD_STEPS],
+        title: 'Bulk Client Upload Process',
+        showIndex: true
+      }
+    }],
+    actions: [
+      { id: 'start', label: 'Start Upload', icon: 'ArrowRight', next: 'template' }
+    ]
+  },
+  {
+    id: 'template',
+    type: 'display',
+    content: 'First, you\'ll need the CSV template to format your client data correctly. It has a column for each client field, with the required ones marked.',
+    modules: [{
+      kind: 'alert',
+      props: {
+        type: 'info',
+        title: 'Template Requirements',
+        message: 'The template has a column for each client field. Each row represents one client.'
+      }
+    }],
+    actions: [
+      { id: 'download', label: 'Download Template', icon: 'Download', next: 'download-template' },
+      { id: 'have-template', label: 'I Have Template', variant: 'outline', next: 'upload' }
+    ]
+  },
+  {
+    id: 'download-template',
+    type: 'action',
+    stepId: 'template',
+    action: 'downloadClientTemplate',
+    next: 'template-downloaded'
+  },
+  {
+    id: 'template-downloaded',
+    type: 'display',
+    stepId: 'template',
+    delay: 1000,
+    content: 'Template downloaded successfully! Fill in your client data and return here when ready to upload.',
+    actions: [
+      { id: 'ready', label: 'Ready to Upload', icon: 'ArrowRight', next: 'upload' }
+    ]
+  },
+  {
+    id: 'upload',
+    type: 'display',
+    content: 'Perfect! Now upload your completed CSV file. Each row is checked by LeadExec as its client is created.',
+    modules: [{
+      kind: 'filedrop',
+      props: {
+        title: 'Upload Client Data',
+        description: 'Select your completed CSV file with client information',
+        accept: '.csv',
+        multiple: false,
+        maxSizeMb: 10
+      }
+    }],
+    upload: { reply: 'Uploaded: {{fileName}}', next: 'import-clients' }
+  },
+  {
+    id: 'import-clients',
+    type: 'action',
+    stepId: 'processing',
+    action: 'importClients',
+    next: 'completion'
+  },
+  {
+    id: 'completion',
+    type: 'display',
+    lockable: false,
+    end: true,
+    content: 'Bulk upload finished: {{createdCount}} of {{rowCount}} clients from {{fileName}} were created.',
+    suggestedActions: [
+      { id: 'create-another', label: 'Create Another Client', variant: 'outline', command: { type: 'start-flow', flowId: 'create-new-client' } },
+      { id: 'bulk-upload-more', label: 'Upload More Clients', variant: 'outline', command: { type: 'start-flow', flowId: 'bulk-client-upload' } }
+    ]
+  }
+];
+
+export const BULK_UPLOAD_FLOW: FlowDefinition = {
+  id: 'bulk-client-upload',
+  start: 'overview',
+  nodes: Object.fromEntries(nodes.map(node => [node.id, node]))
+};
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Upload template for the account's client fields: a header row with one
+ * column per field, required ones marked with an asterisk
+ */
+export function clientTemplateCsv(fields: ClientFieldDefinition[]): string {
+  return fields.map(field => csvCell(field.required ? `${field.label} *` : field.label)).join(',') + '\n';
+}
+
+// Rows of a CSV file; quoted cells may hold commas, quotes and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  rows.push([...row, cell]);
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+/**
+ * Clients from an upload in the template's format. Columns are matched to
+ * client fields by label (as in clientTemplateCsv) or name; each client
+ * gets a username from its email and a generated password.
+ */
+export function clientsFromCsv(text: string, fields: ClientFieldDefinition[]): NewClient[] {
+  const [header = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = header.map(cell => {
+    const title = cell.trim().replace(/\s*\*$/, '').toLowerCase();
+    return fields.find(field => field.label.toLowerCase() === title || field.name.toLowerCase() === title);
+  });
+
+  return rows.map(cells => {
+    const values: Record<string, string> = {};
+    columns.forEach((field, index) => {
+      const value = cells[index]?.trim();
+      if (field && value) values[field.name] = value;
+    });
+    const { companyName = '', email = '', phone, firstName, lastName, ...others } = values;
+    return {
+      companyName,
+      email,
+      username: generateUsernameFromEmail(email),
+      password: generateSecurePassword(),
+      ...(phone ? { phone } : {}),
+      ...(firstName ? { firstName } : {}),
+      ...(lastName ? { lastName } : {}),
+      fields: others
+    };
+  });
+}
+
+/** The bulk upload flow with its template requirements listing the account's client fields */
+export function withTemplateColumns(flow: FlowDefinition, fields: ClientFieldDefinition[]): FlowDefinition {
+  const template = flow.nodes['template'];
+  if (template?.type !== 'display' || !fields.length) return flow;
+
+  const columns = fields.map(field => (field.required ? `${field.label} (required)` : field.label)).join(', ');
+  const modules = (template.modules || []).map(module => (
+    module.kind === 'alert'
+      ? { ...module, props: { ...module.props, message: `The template has a column for each client field: ${columns}. Each row represents one client.` } }
+      : module
+  ));
+  return { ...flow, nodes: { ...flow.nodes, template: { ...template, modules } } };
+}
@@ -0,0 +1,950 @@
+// Guided client setup flow ("create-new-client")
+import { CLIENT_SETUP_STEPS, DELIVERY_OPTIONS } from '../chat-constants';
+import type { FlowDefinition, FlowNode, FlowQuestionNode, FlowValues } from '../flow-types';
+import type { ModulePropsByKind } from '../ui-modules/registry';
+import type { ClientConfiguration, ClientFieldDefinition, NewDeliveryAccount } from '../../services/leadexecApi';
+import {
+  DELIVERY_CONFIG_RULES,
+  DELIVERY_PATTERNS,
+  deliveryRuleMessage,
+  type DeliveryConfig,
+  type DeliveryType
+} from '../../services/deliveryConfig';
+
+const EMAIL_PATTERN = '^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$';
+
+type FormValidation = NonNullable<ModulePropsByKind['form']['validations']>[number];
+
+/** Form field that collects each delivery config property, by transport */
+export const DELIVERY_FORM_FIELDS: Record<DeliveryType, Record<string, string>> = {
+  email: { excludedFields: 'excludedFields' },
+  webhook: { url: 'webhookUrl', method: 'webhookMethod', secret: 'webhookSecret' },
+  ftp: {
+    protocol: 'ftpProtocol',
+    host: 'ftpHost',
+    port: 'ftpPort',
+    username: 'ftpUsername',
+    password: 'ftpPassword',
+    directory: 'ftpDirectory'
+  },
+  pingpost: { pingUrl: 'pingUrl', postUrl: 'postUrl', timeoutSeconds: 'timeout' },
+  other: {}
+};
+
+/**
+ * Form rules from the delivery config rules, so a form accepts exactly
+ * what LeadExecAPI.createDeliveryMethod will
+ */
+function deliveryValidations(type: DeliveryType): FormValidation[] {
+  const fieldIds = DELIVERY_FORM_FIELDS[type];
+  return DELIVERY_CONFIG_RULES[type].flatMap(rule => {
+    const fieldId = fieldIds[rule.key];
+    if (!fieldId) return [];
+    const validations: FormValidation[] = [];
+    if (rule.required) validations.push({ fieldId, rule: 'required', message: deliveryRuleMessage(rule, 'required') });
+    if (rule.pattern) validations.push({ fieldId, rule: 'regex', pattern: DELIVERY_PATTERNS[rule.pattern], message: deliveryRuleMessage(rule, 'pattern') });
+    if (rule.min !== undefined) validations.push({ fieldId, rule: 'min', value: rule.min, message: deliveryRuleMessage(rule, 'min') });
+    if (rule.max !== undefined) validations.push({ fieldId, rule: 'max', value: rule.max, message: deliveryRuleMessage(rule, 'max') });
+    return validations;
+  });
+}
+
+/**
+ * Yes/no ChoiceList question; most delivery questions share this shape
+ */
+function yesNoQuestion(
+  id: string,
+  content: string,
+  module: { title: string; description: string },
+  yes: { label: string; description: string; next: string },
+  no: { label: string; description: string; next: string }
+): FlowQuestionNode {
+  return {
+    id,
+    type: 'question',
+    content,
+    field: id,
+    modules: [{
+      kind: 'choices',
+      props: {
+        ...module,
+        mode: 'single',
+        layout: 'card',
+        options: [
+          { id: 'yes', label: yes.label, description: yes.description },
+          { id: 'no', label: no.label, description: no.description }
+        ]
+      }
+    }],
+    answers: {
+      yes: { next: yes.next },
+      no: { next: no.next }
+    }
+  };
+}
+
+const nodes: FlowNode[] = [
+  {
+    id: 'setup-overview',
+    type: 'display',
+    delay: 0,
+    content: 'I\'ll guide you through the LeadExec client setup process. Here\'s what we\'ll accomplish together:',
+    modules: [{
+      kind: 'steps',
+      props: {
+        variant: 'overview',
+        steps: [...CLIENT_SETUP_STEPS],
+        title: 'Client Setup Process (Draft)',
+        showIndex: true
+      }
+    }],
+    actions: [
+      { id: 'start', label: 'Start Setup', icon: 'ArrowRight', next: 'basic-info' }
+    ]
+  },
+  {
+    id: 'basic-info',
+    type: 'form',
+    content: 'Let\'s start with the basic information. Enter the company details and we\'ll auto-generate secure login credentials:',
+    modules: [{
+      kind: 'form',
+      props: {
+        title: 'Client Information',
+        description: 'Basic client details and auto-generated credentials',
+        sections: [
+          {
+            id: 'basic',
+            fields: [
+              { id: 'companyName', label: 'Company Name', type: 'text', required: true, placeholder: 'Enter company name' },
+              { id: 'email', label: 'Email Address', type: 'email', required: true, placeholder: 'Enter email address' }
+            ]
+          },
+          {
+            id: 'credentials',
+            title: 'Client Credentials',
+            description: 'Username and password will be auto-generated when you enter a valid email',
+            fields: [
+              { id: 'username', label: 'Username', type: 'text', value: '', required: false, placeholder: 'Will be generated from email address' },
+              { id: 'tempPassword', label: 'Password', type: 'text', value: '', required: false, placeholder: 'Will be auto-generated securely' }
+            ]
+          }
+        ],
+        validations: [
+          { fieldId: 'companyName', rule: 'required', message: 'Company name is required' },
+          { fieldId: 'email', rule: 'required', message: 'Email address is required' },
+          { fieldId: 'email', rule: 'regex', pattern: EMAIL_PATTERN, message: 'Please enter a valid email address' }
+        ],
+        derive: [
+          { fieldId: 'username', from: ['email'], strategy: 'usernameFromEmail', editable: true },
+          { fieldId: 'tempPassword', from: ['email'], strategy: 'strongPassword', editable: true }
+        ],
+        submitLabel: 'Continue'
+      }
+    }],
+    reply: '{{companyName}} ({{email}})',
+    next: 'delivery-method'
+  },
+  {
+    id: 'delivery-method',
+    type: 'question',
+    content: 'Great! Now let\'s configure how leads will be delivered to this client:',
+    field: 'deliveryMethod',
+    modules: [{
+      kind: 'choices',
+      props: {
+        title: 'Choose Delivery Method',
+        description: 'Select how you want leads sent to this client',
+        options: [...DELIVERY_OPTIONS],
+        mode: 'single',
+        layout: 'card'
+      }
+    }],
+    reply: 'Selected: {{label}}',
+    next: 'delivery-method-branch'
+  },
+  {
+    id: 'delivery-method-branch',
+    type: 'branch',
+    on: 'deliveryMethod',
+    cases: {
+      email: 'field-mapping',
+      webhook: 'webhook-basic',
+      ftp: 'ftp-config',
+      pingpost: 'pingpost-config'
+    },
+    default: 'configuration'
+  },
+
+  // ===== Email delivery =====
+  yesNoQuestion(
+    'field-mapping',
+    'I\'ll use the client email by default for delivery. Should I use all the lead type mappings, or exclude some fields?',
+    { title: 'Lead Field Mappings', description: 'Choose how to handle lead data fields' },
+    { label: 'Use All Lead Fields', description: 'Include all available lead data in delivery', next: 'template-choice' },
+    { label: 'Exclude Some Fields', description: 'Specify which fields to exclude from delivery', next: 'field-exclusions' }
+  ),
+  {
+    id: 'field-exclusions',
+    type: 'form',
+    content: 'Please specify which fields to exclude from delivery.',
+    modules: [{
+      kind: 'form',
+      props: {
+        title: 'Field Exclusions',
+        description: 'Enter fields to exclude from lead delivery',
+        fields: [
+          { id: 'excludedFields', label: 'Fields to Exclude (comma-separated)', type: 'text', placeholder: 'e.g., ssn, phone, internal_notes', required: true }
+        ],
+        submitLabel: 'Continue'
+      }
+    }],
+    reply: 'Field exclusions saved',
+    next: 'template-choice'
+  },
+  {
+    id: 'template-choice',
+    type: 'question',
+    content: 'Would you like to use a generic email template or upload a custom one?',
+    field: 'emailTemplate',
+    modules: [{
+      kind: 'choices',
+      props: {
+        title: 'Email Template',
+        description: 'Choose template type for lead delivery emails',
+        options: [
+          { id: 'generic', label: 'Generic Template', description: 'Use our standard email template' },
+          { id: 'custom', label: 'Custom Template', description: 'Upload your own email template' }
+        ],
+        mode: 'single',
+        layout: 'card'
+      }
+    }],
+    answers: {
+      generic: { next: 'schedule-question' },
+      custom: { next: 'template-upload' }
+    }
+  },
+  {
+    id: 'template-upload',
+    type: 'display',
+    content: 'Please upload your custom email template.',
+    modules: [{
+      kind: 'filedrop',
+      props: {
+        title: 'Upload Email Template',
+        description: 'Upload your custom template file',
+        accept: '.html,.htm,.txt',
+        multiple: false,
+        maxSizeMb: 5
+      }
+    }],
+    advance: { after: 2000, reply: 'Template uploaded', next: 'schedule-question' }
+  },
+
+  // ===== Webhook delivery =====
+  {
+    id: 'webhook-basic',
+    type: 'form',
+    content: 'Configure your webhook endpoint details.',
+    modules: [{
+      kind: 'form',
+      props: {
+        title: 'Webhook Basic Configuration',
+        description: 'Set up your webhook endpoint',
+        fields: [
+          { id: 'webhookUrl', label: 'Webhook URL', type: 'url', required: true, placeholder: 'https://client.example.com/webhook/leads' },
+          { id: 'webhookSecret', label: 'Webhook Secret (optional)', type: 'password', placeholder: 'Optional authentication secret' },
+          {
+            id: 'webhookMethod',
+            label: 'HTTP Method',
+            type: 'select',
+            required: true,
+            value: 'POST',
+            options: [
+              { value: 'POST', label: 'POST' },
+              { value: 'PUT', label: 'PUT' }
+            ]
+          }
+        ],
+        validations: deliveryValidations('webhook'),
+        submitLabel: 'Continue'
+      }
+    }],
+    reply: 'Webhook details saved',
+    next: 'webhook-field-mapping'
+  },
+  yesNoQuestion(
+    'webhook-field-mapping',
+    'Do you need custom field mapping for this webhook? Third-party platforms often have different field names.',
+    { title: 'Field Mapping', description: 'Configure how lead fields are mapped to your webhook' },
+    { label: 'Yes, Need Mapping', description: 'Upload CSV with field mappings or set up custom mapping', next: 'webhook-mapping-details' },
+    { label: 'No, Use Default', description: 'Use standard LeadExec field names', next: 'schedule-question' }
+  ),
+  {
+    id: 'webhook-mapping-details',
+    type: 'display',
+    content: 'Upload a CSV file with field mappings or let our AI process auto-mapping.',
+    modules: [{
+      kind: 'filedrop',
+      props: {
+        title: 'Upload Field Mapping File',
+        description: 'Upload CSV with field mappings (LeadExec_Field, Your_Field)',
+        accept: '.csv,.xlsx',
+        multiple: false,
+        maxSizeMb: 5
+      }
+    }],
+    actions: [
+      { id: 'auto-map', label: 'Auto-Map', reply: 'Field mapping configured', next: 'schedule-question' },
+      { id: 'skip', label: 'Skip For Now', variant: 'outline', reply: 'Field mapping configured', next: 'schedule-question' }
+    ]
+  },
+
+  // ===== FTP and Ping Post delivery =====
+  {
+    id: 'ftp-config',
+    type: 'form',
+    stepId: 'delivery-config',
+    content: 'Where should lead files be uploaded?',
+    modules: [{
+      kind: 'form',
+      props: {
+        title: 'FTP Configuration',
+        description: 'Lead files are written to this server',
+        fields: [
+          {
+            id: 'ftpProtocol',
+            label: 'Protocol',
+            type: 'select',
+            required: true,
+            value: 'sftp',
+            options: [
+              { value: 'sftp', label: 'SFTP' },
+              { value: 'ftp', label: 'FTP' }
+            ]
+          },
+          { id: 'ftpHost', label: 'Host', type: 'text', required: true, placeholder: 'ftp.client.example.com' },
+          { id: 'ftpPort', label: 'Port (optional)', type: 'number', min: 1, max: 65535, placeholder: '22 for SFTP, 21 for FTP' },
+          { id: 'ftpUsername', label: 'Username', type: 'text', required: true },
+          { id: 'ftpPassword', label: 'Password (optional)', type: 'password', placeholder: 'Leave empty for key-based access' },
+          { id: 'ftpDirectory', label: 'Directory (optional)', type: 'text', placeholder: '/incoming/leads' }
+        ],
+        validations: deliveryValidations('ftp'),
+        submitLabel: 'Continue to Configuration'
+      }
+    }],
+    reply: 'Delivery configuration saved',
+    next: 'configuration'
+  },
+  {
+    id: 'pingpost-config',
+    type: 'form',
+    stepId: 'delivery-config',
+    content: 'Configure ping post settings for real-time lead validation.',
+    modules: [{
+      kind: 'form',
+      props: {
+        title: 'Ping Post Configuration',
+        description: 'Set up real-time lead validation and delivery',
+        fields: [
+          { id: 'pingUrl', label: 'Ping URL', type: 'url', required: true, placeholder: 'https://client.example.com/ping' },
+          { id: 'postUrl', label: 'Post URL', type: 'url', required: true, placeholder: 'https://client.example.com/post' },
+          { id: 'timeout', label: 'Timeout (seconds)', type: 'number', value: 30, min: 5, max: 300 }
+        ],
+        validations: deliveryValidations('pingpost'),
+        submitLabel: 'Continue to Configuration'
+      }
+    }],
+    reply: 'Delivery configuration saved',
+    next: 'configuration'
+  },
+  {
+    id: 'configuration',
+    type: 'form',
+    completes: ['delivery-config'],
+    content: 'Configure additional client settings and preferences.',
+    modules: [{
+      kind: 'form',
+      props: {
+        title: 'Client Configuration',
+        description: 'Set up client preferences and limits',
+        sections: [
+          {
+            id: 'limits',
+            title: 'Lead Limits & Pricing',
+            fields: [
+              { id: 'dailyLeadLimit', label: 'Daily Lead Limit', type: 'number', value: 50, min: 1, max: 1000, placeholder: 'Maximum leads per day' },
+              { id: 'leadPrice', label: 'Price Per Lead ($)', type: 'number', value: 25, min: 1, placeholder: 'Cost per lead' }
+            ]
+          },
+          {
+            id: 'filtering',
+            title: 'Lead Filtering',
+            fields: [
+              {
+                id: 'leadTypes',
+                label: 'Accepted Lead Types',
+                type: 'select',
+                required: true,
+                value: 'all',
+                options: [
+                  { value: 'all', label: 'All Lead Types' },
+                  { value: 'residential', label: 'Residential Only' },
+                  { value: 'commercial', label: 'Commercial Only' },
+                  { value: 'custom', label: 'Custom Filter' }
+                ]
+              },
+              { id: 'excludeWeekends', label: 'Exclude Weekend Leads', type: 'checkbox', value: false }
+            ]
+          }
+        ],
+        submitLabel: 'Continue to Delivery Account'
+      }
+    }],
+    reply: 'Delivery settings saved',
+    next: 'delivery-account-choice'
+  },
+
+  // ===== Shared delivery questions =====
+  yesNoQuestion(
+    'schedule-question',
+    'Should this delivery method follow a delivery schedule?',
+    { title: 'Delivery Schedule', description: 'Set up when leads should be delivered' },
+    { label: 'Yes, Set Schedule', description: 'Configure specific delivery times', next: 'schedule-details' },
+    { label: 'No, Deliver Immediately', description: 'Send leads as they arrive', next: 'retry-question' }
+  ),
+  {
+    id: 'schedule-details',
+    type: 'form',
+    content: 'Please provide the delivery schedule details.',
+    modules: [{
+      kind: 'form',
+      props: {
+        title: 'Schedule Details',
+        description: 'When should leads be delivered?',
+        fields: [
+          { id: 'scheduleDetails', label: 'Schedule Details', type: 'text', placeholder: 'e.g., Mon-Fri 9AM-5PM EST', required: true }
+        ],
+        submitLabel: 'Continue'
+      }
+    }],
+    reply: 'Schedule details saved',
+    next: 'retry-question'
+  },
+  yesNoQuestion(
+    'retry-question',
+    'Should there be retry logic if delivery fails?',
+    { title: 'Retry Logic', description: 'Handle delivery failures automatically' },
+    { label: 'Yes, Enable Retry', description: 'Automatically retry failed deliveries', next: 'retry-details' },
+    { label: 'No, Single Attempt', description: 'Only attempt delivery once', next: 'notification-question' }
+  ),
+  {
+    id: 'retry-details',
+    type: 'form',
+    content: 'Configure retry settings for failed deliveries.',
+    modules: [{
+      kind: 'form',
+      props: {
+        title: 'Retry Configuration',
+        description: 'How should failed deliveries be retried?',
+        fields: [
+          { id: 'retryAttempts', label: 'Max Retry Attempts', type: 'number', value: 3, min: 1, max: 10, required: true },
+          { id: 'retryInterval', label: 'Retry Interval (minutes)', type: 'number', value: 15, min: 1, max: 1440, required: true }
+        ],
+        submitLabel: 'Continue'
+      }
+    }],
+    reply: 'Retry settings saved',
+    next: 'notification-question'
+  },
+  yesNoQuestion(
+    'notification-question',
+    'Should we notify the account owner on delivery failures?',
+    { title: 'Failure Notifications', description: 'Get notified when deliveries fail' },
+    { label: 'Yes, Send Notifications', description: 'Email alerts for delivery failures', next: 'notification-details' },
+    { label: 'No Notifications', description: 'Handle failures silently', next: 'delivery-account-choice' }
+  ),
+  {
+    id: 'notification-details',
+    type: 'form',
+    completes: ['delivery-config'],
+    content: 'Who should receive the failure notifications?',
+    modules: [{
+      kind: 'form',
+      props: {
+        title: 'Notification Recipient',
+        description: 'Email address for delivery failure alerts',
+        fields: [
+          { id: 'notificationEmail', label: 'Notification Email', type: 'email', placeholder: 'admin@company.com', value: '{{email}}', required: true }
+        ],
+        validations: [
+          { fieldId: 'notificationEmail', rule: 'required', message: 'Email address is required' }
+        ],
+        submitLabel: 'Continue'
+      }
+    }],
+    reply: 'Notification settings saved',
+    next: 'delivery-account-choice'
+  },
+
+  // ===== Delivery account =====
+  {
+    ...yesNoQuestion(
+      'delivery-account-choice',
+      'Would you like to create a delivery account for this client? This will define how leads are allocated and delivered.',
+      { title: 'Delivery Account Setup', description: 'Choose whether to set up delivery account now or later' },
+      { label: 'Yes, Create Delivery Account', description: 'Set up account limits, revenue requirements, and filtering', next: 'quantity-limits-question' },
+      { label: 'No, Skip for Now', description: 'Create the client without delivery account (can be added later)', next: 'review-setup' }
+    ),
+    completes: ['delivery-config']
+  },
+  yesNoQuestion(
+    'quantity-limits-question',
+    'I\'ll name the account "{{companyName}} Delivery". Are there any quantity limits for this account?',
+    { title: 'Quantity Limits', description: 'Set limits on lead delivery volume' },
+    { label: 'Yes, Set Limits', description: 'Configure hourly, daily, weekly, or monthly limits', next: 'quantity-limits-details' },
+    { label: 'No Limits', description: 'Allow unlimited lead delivery', next: 'exclusive-delivery-question' }
+  ),
+  {
+    id: 'quantity-limits-details',
+    type: 'form',
+    content: 'Configure the quantity limits for this account.',
+    modules: [{
+      kind: 'form',
+      props: {
+        title: 'Quantity Limits',
+        description: 'Set delivery volume limits (leave empty for no limit)',
+        fields: [
+          { id: 'dailyLimit', label: 'Daily Limit', type: 'number', value: 50, min: 0, required: true },
+          { id: 'hourlyLimit', label: 'Hourly Limit (optional)', type: 'number', min: 0, placeholder: 'Leave empty for no limit' },
+          { id: 'weeklyLimit', label: 'Weekly Limit (optional)', type: 'number', min: 0, placeholder: 'Leave empty for no limit' },
+          { id: 'monthlyLimit', label: 'Monthly Limit (optional)', type: 'number', min: 0, placeholder: 'Leave empty for no limit' }
+        ],
+        submitLabel: 'Continue'
+      }
+    }],
+    reply: 'Quantity limits saved',
+    next: 'exclusive-delivery-question'
+  },
+  yesNoQuestion(
+    'exclusive-delivery-question',
+    'Should this be an exclusive delivery?',
+    { title: 'Exclusive Delivery', description: 'Control lead distribution exclusivity' },
+    { label: 'Yes, Exclusive', description: 'No other client receives leads from this batch', next: 'order-system-question' },
+    { label: 'No, Shared', description: 'Other clients can receive leads from the same batch', next: 'order-system-question' }
+  ),
+  yesNoQuestion(
+    'order-system-question',
+    'Should this account use the order system?',
+    { title: 'Order System', description: 'Control how leads are allocated to this account' },
+    { label: 'Yes, Use Orders', description: 'Must create orders for client to receive leads', next: 'order-system-reminder' },
+    { label: 'No, Automatic', description: 'Automatically allocate leads without orders', next: 'revenue-requirements-question' }
+  ),
+  {
+    id: 'order-system-reminder',
+    type: 'display',
+    stepId: 'order-system-question',
+    content: 'Great! Remember: You must create an order for this client to receive leads.',
+    advance: { after: 800, reply: '', next: 'revenue-requirements-question' }
+  },
+  yesNoQuestion(
+    'revenue-requirements-question',
+    'Are there any revenue requirements?',
+    { title: 'Revenue Requirements', description: 'Set minimum revenue and profit thresholds' },
+    { label: 'Yes, Set Requirements', description: 'Configure minimum revenue and profit requirements', next: 'revenue-requirements-details' },
+    { label: 'No Requirements', description: 'Accept leads regardless of revenue potential', next: 'criteria-question' }
+  ),
+  {
+    id: 'revenue-requirements-details',
+    type: 'form',
+    content: 'Configure revenue requirements for this account.',
+    modules: [{
+      kind: 'form',
+      props: {
+        title: 'Revenue Requirements',
+        description: 'Set minimum revenue and profit thresholds',
+        fields: [
+          { id: 'minRevenue', label: 'Minimum Revenue ($)', type: 'number', min: 0, placeholder: 'e.g., 25' },
+          { id: 'minProfitAmount', label: 'Minimum Profit Amount ($)', type: 'number', min: 0, placeholder: 'e.g., 10' },
+          { id: 'minProfitPercent', label: 'Minimum Profit Percentage (%)', type: 'number', min: 0, max: 100, placeholder: 'e.g., 40' }
+        ],
+        submitLabel: 'Continue'
+      }
+    }],
+    reply: 'Revenue requirements saved',
+    next: 'criteria-question'
+  },
+  yesNoQuestion(
+    'criteria-question',
+    'Would you like to apply any criteria (e.g., state, zip, or lead field filters)?',
+    { title: 'Lead Criteria & Filtering', description: 'Apply filters to control which leads this account receives' },
+    { label: 'Yes, Add Filters', description: 'Configure geographic or field-based filtering', next: 'criteria-details' },
+    { label: 'No Filters', description: 'Accept all leads that meet other requirements', next: 'review-setup' }
+  ),
+  {
+    id: 'criteria-details',
+    type: 'form',
+    content: 'Configure lead criteria and filtering for this account.',
+    modules: [{
+      kind: 'form',
+      props: {
+        title: 'Lead Criteria & Filtering',
+        description: 'Set up geographic and field-based filters',
+        fields: [
+          { id: 'stateFilter', label: 'State Filters (optional)', type: 'text', placeholder: 'e.g., CA, NY, TX (comma-separated)' },
+          { id: 'zipFilter', label: 'ZIP Code Filters (optional)', type: 'text', placeholder: 'e.g., 90210, 10001, 78701' },
+          { id: 'leadFieldFilters', label: 'Additional Field Filters (optional)', type: 'text', placeholder: 'e.g., property_type=residential, age>=25' }
+        ],
+        submitLabel: 'Save Criteria'
+      }
+    }],
+    reply: 'Criteria saved',
+    next: 'review-setup'
+  },
+
+  // ===== Review =====
+  {
+    id: 'review-setup',
+    type: 'display',
+    content: 'Here\'s everything I\'ve collected. Please check it before I create the client; use Edit on any section to change it.',
+    review: {
+      title: 'Review Client Setup',
+      description: 'Nothing has been created yet',
+      sections: [
+        { id: 'company', title: 'Company Information', nodes: ['basic-info'], fields: ['companyName', 'email'] },
+        { id: 'credentials', title: 'Credentials', nodes: ['basic-info'], fields: ['username', 'tempPassword'] },
+        { id: 'delivery', title: 'Delivery Method', nodes: ['delivery-method', 'webhook-basic', 'webhook-field-mapping', 'ftp-config', 'pingpost-config'] },
+        { id: 'template', title: 'Lead Fields & Template', nodes: ['field-mapping', 'field-exclusions', 'template-choice'] },
+        { id: 'schedule', title: 'Schedule', nodes: ['schedule-question', 'schedule-details'] },
+        { id: 'retry', title: 'Retry Logic', nodes: ['retry-question', 'retry-details'] },
+        { id: 'notifications', title: 'Notifications', nodes: ['notification-question', 'notification-details'] },
+        { id: 'account', title: 'Delivery Account', nodes: ['delivery-account-choice'] },
+        { id: 'limits', title: 'Limits & Pricing', nodes: ['configuration', 'quantity-limits-question', 'quantity-limits-details'] },
+        { id: 'exclusivity', title: 'Exclusivity & Orders', nodes: ['exclusive-delivery-question', 'order-system-question'] },
+        { id: 'revenue', title: 'Revenue Requirements', nodes: ['revenue-requirements-question', 'revenue-requirements-details'] },
+        { id: 'criteria', title: 'Criteria', nodes: ['criteria-question', 'criteria-details'] }
+      ]
+    },
+    actions: [
+      { id: 'confirm', label: 'Create Client', icon: 'ArrowRight', reply: 'Looks good, create the client', next: 'creation-branch' },
+      { id: 'dry-run', label: 'Dry Run', variant: 'outline', reply: 'Show me what would be sent first', next: 'preview-payloads' }
+    ]
+  },
+
+  // ===== Dry run =====
+  // Shares the review step, so the review stays editable while the payloads are checked
+  {
+    id: 'preview-payloads',
+    type: 'action',
+    stepId: 'review-setup',
+    action: 'previewClientPayloads',
+    repeatable: true,
+    next: 'payload-preview'
+  },
+  {
+    id: 'payload-preview',
+    type: 'display',
+    stepId: 'review-setup',
+    content: 'Dry run: these are the requests that would be sent to {{payloadTarget}}, in order. Nothing has been sent. Approve them to create the client, or use Edit on the review to change something.',
+    modules: [
+      {
+        kind: 'code-viewer',
+        props: { title: 'Client', caption: '{{clientRequest}}', language: 'json', code: '{{clientPayload}}' }
+      },
+      {
+        kind: 'code-viewer',
+        props: { title: 'Delivery Method', caption: '{{deliveryMethodRequest}}', language: 'json', code: '{{deliveryMethodPayload}}', empty: 'No delivery method is set up' }
+      },
+      {
+        kind: 'code-viewer',
+        props: { title: 'Delivery Account', caption: '{{deliveryAccountRequest}}', language: 'json', code: '{{deliveryAccountPayload}}', empty: 'No delivery account is set up' }
+      }
+    ],
+    actions: [
+      { id: 'approve', label: 'Approve and Create', icon: 'ArrowRight', reply: 'Payloads approved, create the client', next: 'creation-branch' }
+    ]
+  },
+  {
+    id: 'creation-branch',
+    type: 'branch',
+    on: 'delivery-account-choice',
+    cases: {
+      yes: 'create-client-with-account'
+    },
+    default: 'create-client-only'
+  },
+
+  // ===== Creation =====
+  {
+    id: 'create-client-with-account',
+    type: 'action',
+    stepId: 'delivery-account',
+    action: 'createClient',
+    next: 'client-created'
+  },
+  {
+    id: 'create-client-only',
+    type: 'action',
+    stepId: 'creation',
+    action: 'createClient',
+    next: 'client-created-without-account'
+  },
+  {
+    id: 'client-created',
+    type: 'display',
+    stepId: 'creation',
+    lockable: false,
+    end: true,
+    content: 'Client and delivery account created successfully! Your complete lead delivery system is now active.',
+    modules: [{
+      kind: 'summary',
+      props: {
+        title: 'Client Created Successfully',
+        items: [
+          {
+            id: 'client-created',
+            title: '{{companyName}}',
+            subtitle: '{{clientId}}',
+            status: 'success',
+            link: { href: '/clients/{{clientId}}', label: 'Open' }
+          }
+        ]
+      }
+    }],
+    suggestedActions: [
+      { id: 'create-another', label: 'Create Another Client', variant: 'outline', command: { type: 'start-flow', flowId: 'create-new-client' } },
+      { id: 'back-home', label: 'Back to Tools', variant: 'outline', command: { type: 'start-over' } }
+    ]
+  },
+  {
+    id: 'client-created-without-account',
+    type: 'display',
+    stepId: 'creation',
+    lockable: false,
+    end: true,
+    content: 'No problem! The client has been created without a delivery account. You can set up delivery accounts later from the client management screen.',
+    modules: [{
+      kind: 'alert',
+      props: {
+        type: 'info',
+        title: 'Client Created',
+        message: '{{companyName}} has been added to your system. To receive leads, you\'ll need to create a delivery account later.'
+      }
+    }],
+    suggestedActions: [
+      { id: 'create-another', label: 'Create Another Client', variant: 'outline', command: { type: 'start-flow', flowId: 'create-new-client' } },
+      { id: 'back-home', label: 'Back to Tools', variant: 'outline', command: { type: 'start-over' } }
+    ]
+  }
+];
+
+export const CLIENT_SETUP_FLOW: FlowDefinition = {
+  id: 'create-new-client',
+  start: 'setup-overview',
+  nodes: Object.fromEntries(nodes.map(node => [node.id, node]))
+};
+
+type FormField = NonNullable<ModulePropsByKind['form']['sections']>[number]['fields'][number];
+
+function toFormField(field: ClientFieldDefinition): FormField {
+  const { name: id, label, required } = field;
+  switch (field.type) {
+    case 'select':
+      return { id, label, type: 'select', required, options: (field.options || []).map(option => ({ value: option, label: option })) };
+    case 'textarea':
+      return { id, label, type: 'textarea', required, placeholder: `Enter ${label.toLowerCase()}` };
+    default:
+      return { id, label, type: field.type === 'phone' ? 'tel' : field.type, required, placeholder: `Enter ${label.toLowerCase()}` };
+  }
+}
+
+/**
+ * The client setup flow with the company section of its basic information
+ * form generated from the account's client fields, and the review listing
+ * the same fields. Credentials are derived from the email field when the
+ * account has one.
+ */
+export function withClientFields(flow: FlowDefinition, fields: ClientFieldDefinition[]): FlowDefinition {
+  const basicInfo = flow.nodes['basic-info'];
+  const review = flow.nodes['review-setup'];
+  if (basicInfo?.type !== 'form' || !fields.length) return flow;
+
+  const hasEmail = fields.some(field => field.name === 'email');
+  const modules = (basicInfo.modules || []).map(module => {
+    if (module.kind !== 'form') return module;
+    const { sections = [], derive = [] } = module.props;
+    return {
+      ...module,
+      props: {
+        ...module.props,
+        sections: sections.map(section => section.id === 'basic' ? { ...section, fields: fields.map(toFormField) } : section),
+        validations: fields.flatMap(field => [
+          ...(field.required ? [{ fieldId: field.name, rule: 'required' as const, message: `${field.label} is required` }] : []),
+          ...(field.type === 'email'
+            ? [{ fieldId: field.name, rule: 'regex' as const, pattern: EMAIL_PATTERN, message: 'Please enter a valid email address' }]
+            : [])
+        ]),
+        derive: hasEmail ? derive : []
+      }
+    };
+  });
+
+  const nodes: Record<string, FlowNode> = { ...flow.nodes, 'basic-info': { ...basicInfo, modules } };
+  if (review?.type === 'display' && review.review) {
+    nodes['review-setup'] = {
+      ...review,
+      review: {
+        ...review.review,
+        sections: review.review.sections.map(section => (
+          section.id === 'company' ? { ...section, fields: fields.map(field => field.name) } : section
+        ))
+      }
+    };
+  }
+  return { ...flow, nodes };
+}
+
+const text = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+const optional = (value: unknown) => text(value) || undefined;
+
+/**
+ * Delivery config collected by the flow; null when delivery was skipped.
+ * Email goes to the client's own address.
+ */
+export function deliveryConfigFromValues(values: FlowValues): DeliveryConfig | null {
+  switch (values.deliveryMethod) {
+    case 'email':
+      return {
+        type: 'email',
+        recipients: [text(values.email)].filter(Boolean),
+        ...(values['field-mapping'] === 'no' && values.excludedFields
+          ? { excludedFields: text(values.excludedFields).split(',').map(field => field.trim()).filter(Boolean) }
+          : {}),
+        ...(values.emailTemplate ? { template: values.emailTemplate } : {})
+      };
+    case 'webhook':
+      return {
+        type: 'webhook',
+        url: text(values.webhookUrl),
+        method: values.webhookMethod || 'POST',
+        secret: optional(values.webhookSecret),
+        customFieldMapping: values['webhook-field-mapping'] === 'yes'
+      };
+    case 'ftp':
+      return {
+        type: 'ftp',
+        protocol: values.ftpProtocol || 'sftp',
+        host: text(values.ftpHost),
+        port: text(values.ftpPort) ? Number(values.ftpPort) : undefined,
+        username: text(values.ftpUsername),
+        password: optional(values.ftpPassword),
+        directory: optional(values.ftpDirectory)
+      };
+    case 'pingpost':
+      return {
+        type: 'pingpost',
+        pingUrl: text(values.pingUrl),
+        postUrl: text(values.postUrl),
+        timeoutSeconds: Number(values.timeout ?? 30)
+      };
+    default:
+      return null;
+  }
+}
+
+const amount = (value: unknown) => (text(value) ? Number(value) : undefined);
+
+/**
+ * Delivery account collected by the flow, named after the company; null
+ * when the user chose not to create one
+ */
+export function deliveryAccountFromValues(values: FlowValues): NewDeliveryAccount | null {
+  if (values['delivery-account-choice'] !== 'yes') return null;
+  const limited = values['quantity-limits-question'] === 'yes';
+  const revenue = values['revenue-requirements-question'] === 'yes';
+  const criteria = values['criteria-question'] === 'yes';
+  return {
+    accountName: `${text(values.companyName) || 'Client'} Delivery`,
+    limits: limited
+      ? { daily: amount(values.dailyLimit), hourly: amount(values.hourlyLimit), weekly: amount(values.weeklyLimit), monthly: amount(values.monthlyLimit) }
+      : {},
+    settings: {
+      exclusive: values['exclusive-delivery-question'] === 'yes',
+      useOrders: values['order-system-question'] === 'yes',
+      ...(revenue ? {
+        revenue: {
+          minRevenue: amount(values.minRevenue),
+          minProfitAmount: amount(values.minProfitAmount),
+          minProfitPercent: amount(values.minProfitPercent)
+        }
+      } : {}),
+      ...(criteria ? {
+        criteria: {
+          states: optional(values.stateFilter),
+          zips: optional(values.zipFilter),
+          fields: optional(values.leadFieldFilters)
+        }
+      } : {})
+    }
+  };
+}
+
+const yesNo = (value: boolean) => (value ? 'yes' : 'no');
+
+/**
+ * Flow values that reproduce an existing client's delivery setup, used as
+ * prefilled answers when a new client is modeled on it. Company details and
+ * credentials are left out so they are always asked.
+ */
+export function clientSetupDefaults(config: ClientConfiguration): FlowValues {
+  const { delivery, schedule, retry, notificationEmail, deliveryAccount } = config;
+  const values: FlowValues = { deliveryMethod: delivery.method };
+
+  if (delivery.method === 'webhook' && delivery.webhook) {
+    values.webhookUrl = delivery.webhook.url;
+    values.webhookMethod = delivery.webhook.method;
+    values['webhook-field-mapping'] = yesNo(Boolean(delivery.customFieldMapping));
+  }
+  if (delivery.method === 'email') {
+    values['field-mapping'] = yesNo(!delivery.excludedFields);
+    if (delivery.excludedFields) values.excludedFields = delivery.excludedFields;
+    if (delivery.emailTemplate) values.emailTemplate = delivery.emailTemplate;
+  }
+
+  values['schedule-question'] = yesNo(Boolean(schedule));
+  if (schedule) values.scheduleDetails = schedule;
+
+  values['retry-question'] = yesNo(Boolean(retry));
+  if (retry) {
+    values.retryAttempts = retry.attempts;
+    values.retryInterval = retry.intervalMinutes;
+  }
+
+  values['notification-question'] = yesNo(Boolean(notificationEmail));
+  if (notificationEmail) values.notificationEmail = notificationEmail;
+
+  values['delivery-account-choice'] = yesNo(Boolean(deliveryAccount));
+  if (deliveryAccount) {
+    const { limits, exclusive, useOrders, revenue, criteria } = deliveryAccount;
+    values['quantity-limits-question'] = 'yes';
+    values.dailyLimit = limits.daily;
+    if (limits.hourly !== undefined) values.hourlyLimit = limits.hourly;
+    if (limits.weekly !== undefined) values.weeklyLimit = limits.weekly;
+    if (limits.monthly !== undefined) values.monthlyLimit = limits.monthly;
+
+    values['exclusive-delivery-question'] = yesNo(exclusive);
+    values['order-system-question'] = yesNo(useOrders);
+
+    values['revenue-requirements-question'] = yesNo(Boolean(revenue));
+    if (revenue?.minRevenue !== undefined) values.minRevenue = revenue.minRevenue;
+    if (revenue?.minProfitAmount !== undefined) values.minProfitAmount = revenue.minProfitAmount;
+    if (revenue?.minProfitPercent !== undefined) values.minProfitPercent = revenue.minProfitPercent;
+
+    values['criteria-question'] = yesNo(Boolean(criteria));
+    if (criteria?.states) values.stateFilter = criteria.states;
+    if (criteria?.zips) values.zipFilter = criteria.zips;
+    if (criteria?.fields) values.leadFieldFilters = criteria.fields;
+  }
+
+  return values;
+}
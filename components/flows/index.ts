@@ -0,0 +1,32 @@
+// Registry of declarative flows, keyed by tool id
+import type { FlowDefinition } from '../flow-types';
+import type { ClientFieldDefinition } from '../../services/leadexecApi';
+import { CLIENT_SETUP_FLOW, withClientFields } from './client-setup';
+import { BULK_UPLOAD_FLOW, withTemplateColumns } from './bulk-upload';
+
+export const FLOWS: Record<string, FlowDefinition> = {
+  [CLIENT_SETUP_FLOW.id]: CLIENT_SETUP_FLOW,
+  [BULK_UPLOAD_FLOW.id]: BULK_UPLOAD_FLOW
+};
+
+export function getFlow(flowId: string): FlowDefinition | undefined {
+  return FLOWS[flowId];
+}
+
+// Flows whose forms or templates list the account's client fields
+const CLIENT_FIELD_VARIANTS: Record<string, (flow: FlowDefinition, fields: ClientFieldDefinition[]) => FlowDefinition> = {
+  [CLIENT_SETUP_FLOW.id]: withClientFields,
+  [BULK_UPLOAD_FLOW.id]: withTemplateColumns
+};
+
+export const CLIENT_FIELD_FLOWS = Object.keys(CLIENT_FIELD_VARIANTS);
+
+/**
+ * A flow generated for an account's client fields. The registered flow is
+ * left as is, so each run (and each open chat) gets its own definition.
+ */
+export function withAccountFields(flowId: string, fields: ClientFieldDefinition[]): FlowDefinition | undefined {
+  const flow = FLOWS[flowId];
+  const variant = CLIENT_FIELD_VARIANTS[flowId];
+  return flow && variant ? variant(flow, fields) : flow;
+}
@@ -0,0 +1,254 @@
+// Scripted conversations for the declarative flows, run with runFlowScenario
+import type { FlowScenario, FlowScriptActions, FlowScriptStep } from '../flow-harness';
+import { CLIENT_SETUP_FLOW, clientSetupDefaults } from './client-setup';
+
+const ACTIONS: FlowScriptActions = {
+  createClient: () => ({ clientId: 'CL-001' }),
+  previewClientPayloads: () => ({ payloadTarget: 'the mock server', clientRequest: 'PATCH /v1/clients', clientPayload: '{}' })
+};
+
+const choose = (value: string): FlowScriptStep => ({ type: 'choice', value });
+const click = (id: string): FlowScriptStep => ({ type: 'button', id });
+const submit = (data: Record<string, any>): FlowScriptStep => ({ type: 'submit', data });
+
+const BASIC_INFO = { companyName: 'TechCorp', email: 'ops@techcorp.com' };
+const WEBHOOK = { webhookUrl: 'https://techcorp.example.com/leads', webhookMethod: 'POST' };
+
+// Through the webhook details and the default field mapping, up to the schedule question
+const WEBHOOK_START: FlowScriptStep[] = [
+  click('start'),
+  submit(BASIC_INFO),
+  choose('webhook'),
+  submit(WEBHOOK),
+  choose('no')
+];
+
+// Settings copied from an existing client when a new one is modeled on it
+const TECHCORP_DEFAULTS = clientSetupDefaults({
+  clientUID: 1042,
+  companyName: 'TechCorp',
+  delivery: { method: 'webhook', webhook: { url: 'https://hooks.techcorp.com/leads', method: 'POST' }, customFieldMapping: false },
+  schedule: 'Mon-Fri 8AM-6PM EST',
+  retry: { attempts: 3, intervalMinutes: 15 },
+  deliveryAccount: { limits: { daily: 50 }, exclusive: true, useOrders: false }
+});
+
+export const CLIENT_SETUP_SCENARIOS: FlowScenario[] = [
+  {
+    name: 'webhook delivery without a delivery account',
+    flowId: CLIENT_SETUP_FLOW.id,
+    options: { actions: ACTIONS },
+    steps: [
+      ...WEBHOOK_START,
+      choose('no'),
+      choose('no'),
+      choose('no'),
+      choose('no'),
+      click('confirm')
+    ],
+    expect: {
+      nodes: [
+        'setup-overview', 'basic-info', 'delivery-method', 'webhook-basic', 'webhook-field-mapping',
+        'schedule-question', 'retry-question', 'notification-question', 'delivery-account-choice',
+        'review-setup', 'client-created-without-account'
+      ],
+      replies: [
+        'Start Setup', 'TechCorp (ops@techcorp.com)', 'Selected: HTTP Webhook', 'Webhook details saved',
+        'No, Use Default', 'No, Deliver Immediately', 'No, Single Attempt', 'No Notifications',
+        'No, Skip for Now', 'Looks good, create the client'
+      ],
+      completedSteps: [
+        'setup-overview', 'basic-info', 'delivery-method', 'webhook-basic', 'webhook-field-mapping',
+        'schedule-question', 'retry-question', 'notification-question', 'delivery-account-choice',
+        'delivery-config', 'review-setup', 'creation'
+      ],
+      currentStep: 'creation',
+      values: { deliveryMethod: 'webhook', ...WEBHOOK, 'delivery-account-choice': 'no', clientId: 'CL-001' },
+      ended: true
+    }
+  },
+  {
+    name: 'webhook delivery with field mapping and a delivery account',
+    flowId: CLIENT_SETUP_FLOW.id,
+    options: { actions: ACTIONS },
+    steps: [
+      click('start'),
+      submit(BASIC_INFO),
+      choose('webhook'),
+      submit(WEBHOOK),
+      choose('yes'),
+      click('auto-map'),
+      choose('yes'),
+      submit({ scheduleDetails: 'Mon-Fri 9AM-5PM EST' }),
+      choose('yes'),
+      submit({ retryAttempts: 3, retryInterval: 15 }),
+      choose('yes'),
+      submit({ notificationEmail: 'ops@techcorp.com' }),
+      choose('yes'),
+      choose('yes'),
+      submit({ dailyLimit: 50 }),
+      choose('no'),
+      // The order reminder moves on by itself
+      choose('yes'),
+      choose('no'),
+      choose('no'),
+      click('confirm')
+    ],
+    expect: {
+      nodes: [
+        'setup-overview', 'basic-info', 'delivery-method', 'webhook-basic', 'webhook-field-mapping',
+        'webhook-mapping-details', 'schedule-question', 'schedule-details', 'retry-question', 'retry-details',
+        'notification-question', 'notification-details', 'delivery-account-choice', 'quantity-limits-question',
+        'quantity-limits-details', 'exclusive-delivery-question', 'order-system-question', 'order-system-reminder',
+        'revenue-requirements-question', 'criteria-question', 'review-setup', 'client-created'
+      ],
+      replies: [
+        'Start Setup', 'TechCorp (ops@techcorp.com)', 'Selected: HTTP Webhook', 'Webhook details saved',
+        'Yes, Need Mapping', 'Field mapping configured', 'Yes, Set Schedule', 'Schedule details saved',
+        'Yes, Enable Retry', 'Retry settings saved', 'Yes, Send Notifications', 'Notification settings saved',
+        'Yes, Create Delivery Account', 'Yes, Set Limits', 'Quantity limits saved', 'No, Shared',
+        'Yes, Use Orders', 'No Requirements', 'No Filters', 'Looks good, create the client'
+      ],
+      completedSteps: [
+        'setup-overview', 'basic-info', 'delivery-method', 'webhook-basic', 'webhook-field-mapping',
+        'webhook-mapping-details', 'schedule-question', 'schedule-details', 'retry-question', 'retry-details',
+        'notification-question', 'notification-details', 'delivery-config', 'delivery-account-choice',
+        'quantity-limits-question', 'quantity-limits-details', 'exclusive-delivery-question',
+        'order-system-question', 'revenue-requirements-question', 'criteria-question', 'review-setup',
+        'delivery-account', 'creation'
+      ],
+      values: { 'delivery-account-choice': 'yes', 'order-system-question': 'yes', dailyLimit: 50, clientId: 'CL-001' },
+      ended: true
+    }
+  },
+  {
+    name: 'dry run shows the payloads and creates the client once approved',
+    flowId: CLIENT_SETUP_FLOW.id,
+    options: { actions: ACTIONS },
+    steps: [
+      ...WEBHOOK_START,
+      choose('no'),
+      choose('no'),
+      choose('no'),
+      choose('no'),
+      click('dry-run'),
+      click('approve')
+    ],
+    expect: {
+      nodes: [
+        'setup-overview', 'basic-info', 'delivery-method', 'webhook-basic', 'webhook-field-mapping',
+        'schedule-question', 'retry-question', 'notification-question', 'delivery-account-choice',
+        'review-setup', 'payload-preview', 'client-created-without-account'
+      ],
+      replies: [
+        'Start Setup', 'TechCorp (ops@techcorp.com)', 'Selected: HTTP Webhook', 'Webhook details saved',
+        'No, Use Default', 'No, Deliver Immediately', 'No, Single Attempt', 'No Notifications',
+        'No, Skip for Now', 'Show me what would be sent first', 'Payloads approved, create the client'
+      ],
+      values: { clientRequest: 'PATCH /v1/clients', clientId: 'CL-001' },
+      ended: true
+    }
+  },
+  {
+    name: 'delivery account creation failure keeps the flow on the action',
+    flowId: CLIENT_SETUP_FLOW.id,
+    options: {
+      actions: {
+        createClient: () => Promise.reject(new Error('LeadExec is unavailable'))
+      }
+    },
+    steps: [
+      ...WEBHOOK_START,
+      choose('no'),
+      choose('no'),
+      choose('no'),
+      choose('yes'),
+      choose('no'),
+      choose('yes'),
+      choose('no'),
+      choose('no'),
+      choose('no'),
+      click('confirm')
+    ],
+    expect: {
+      nodes: [
+        'setup-overview', 'basic-info', 'delivery-method', 'webhook-basic', 'webhook-field-mapping',
+        'schedule-question', 'retry-question', 'notification-question', 'delivery-account-choice',
+        'quantity-limits-question', 'exclusive-delivery-question', 'order-system-question',
+        'revenue-requirements-question', 'criteria-question', 'review-setup'
+      ],
+      currentStep: 'delivery-account',
+      pendingNode: 'create-client-with-account',
+      actionErrors: ['createClient: LeadExec is unavailable'],
+      ended: false
+    }
+  },
+  {
+    name: 'switching from webhook to email drops the webhook answers',
+    flowId: CLIENT_SETUP_FLOW.id,
+    steps: [
+      ...WEBHOOK_START,
+      { type: 'revise', nodeId: 'delivery-method', event: { type: 'choice', value: 'email' } }
+    ],
+    expect: {
+      nodes: [
+        'setup-overview', 'basic-info', 'delivery-method', 'webhook-basic', 'webhook-field-mapping',
+        'schedule-question', 'field-mapping'
+      ],
+      replies: [
+        'Start Setup', 'TechCorp (ops@techcorp.com)', 'Selected: HTTP Webhook', 'Webhook details saved',
+        'No, Use Default', 'Selected: Email Delivery'
+      ],
+      completedSteps: ['setup-overview', 'basic-info', 'delivery-method'],
+      pendingNode: 'field-mapping',
+      values: { deliveryMethod: 'email', webhookUrl: undefined, 'webhook-field-mapping': undefined }
+    }
+  },
+  {
+    name: 'editing the webhook URL keeps the later answers',
+    flowId: CLIENT_SETUP_FLOW.id,
+    steps: [
+      ...WEBHOOK_START,
+      { type: 'revise', nodeId: 'webhook-basic', event: { type: 'submit', data: { ...WEBHOOK, webhookUrl: 'https://leads.techcorp.example.com' } } }
+    ],
+    expect: {
+      replies: [
+        'Start Setup', 'TechCorp (ops@techcorp.com)', 'Selected: HTTP Webhook', 'Webhook details saved',
+        'No, Use Default', 'Webhook details saved'
+      ],
+      completedSteps: ['setup-overview', 'basic-info', 'delivery-method', 'webhook-basic', 'webhook-field-mapping'],
+      pendingNode: 'schedule-question',
+      values: { webhookUrl: 'https://leads.techcorp.example.com', 'webhook-field-mapping': 'no' }
+    }
+  },
+  {
+    name: 'cloning an existing client only asks for the company details',
+    flowId: CLIENT_SETUP_FLOW.id,
+    options: { actions: ACTIONS, prefill: TECHCORP_DEFAULTS },
+    steps: [
+      click('start'),
+      submit({ companyName: 'Northwind Leads', email: 'ops@northwind.com' }),
+      click('confirm')
+    ],
+    expect: {
+      nodes: ['setup-overview', 'basic-info', 'review-setup', 'client-created'],
+      replies: ['Start Setup', 'Northwind Leads (ops@northwind.com)', 'Looks good, create the client'],
+      completedSteps: [
+        'setup-overview', 'basic-info', 'delivery-method', 'webhook-basic', 'webhook-field-mapping',
+        'schedule-question', 'schedule-details', 'retry-question', 'retry-details', 'notification-question',
+        'delivery-config', 'delivery-account-choice', 'quantity-limits-question', 'quantity-limits-details',
+        'exclusive-delivery-question', 'order-system-question', 'revenue-requirements-question',
+        'criteria-question', 'review-setup', 'delivery-account', 'creation'
+      ],
+      values: {
+        companyName: 'Northwind Leads',
+        webhookUrl: 'https://hooks.techcorp.com/leads',
+        scheduleDetails: 'Mon-Fri 8AM-6PM EST',
+        dailyLimit: 50,
+        'exclusive-delivery-question': 'yes',
+        clientId: 'CL-001'
+      },
+      ended: true
+    }
+  }
+];
@@ -0,0 +1,13 @@
+// Custom hook that follows the connection LeadExecAPI sends requests to
+import { useEffect, useState } from 'react';
+import type { ApiConnection } from '../../services/apiSettings';
+import type { LeadExecAPI } from '../../services/leadexecApi';
+
+export function useApiConnection(api: Pick<LeadExecAPI, 'connection' | 'onConnectionChange'>): ApiConnection | null {
+  const [connection, setConnection] = useState(api.connection);
+  useEffect(() => {
+    setConnection(api.connection);
+    return api.onConnectionChange(setConnection);
+  }, [api]);
+  return connection;
+}
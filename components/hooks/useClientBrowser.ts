@@ -0,0 +1,55 @@
+// Custom hook that pages through the account's clients with LeadExecAPI.listClients
+import { useCallback, useRef, useState } from 'react';
+import type { ClientListQuery, LeadExecAPI, LeadExecClient } from '../../services/leadexecApi';
+
+export interface ClientBrowserState {
+  clients: LeadExecClient[];
+  nextCursor: string | null;
+  /** Clients matching the search, across all pages */
+  total: number;
+  loading: boolean;
+  error?: string;
+}
+
+/**
+ * search() loads the first page of a query and replaces the clients;
+ * loadMore() appends the next page. Pages of a search that has since been
+ * replaced are dropped.
+ */
+export function useClientBrowser(api: Pick<LeadExecAPI, 'listClients'>, pageSize = 25) {
+  const [state, setState] = useState<ClientBrowserState>({ clients: [], nextCursor: null, total: 0, loading: false });
+  const queryRef = useRef<ClientListQuery>({});
+  const cursorRef = useRef<string | null>(null);
+  const requestRef = useRef(0);
+
+  const load = useCallback(async (query: ClientListQuery, cursor?: string) => {
+    const request = ++requestRef.current;
+    setState(prev => ({ ...prev, loading: true, error: undefined }));
+    try {
+      const page = await api.listClients({ ...query, cursor, limit: pageSize });
+      if (request !== requestRef.current) return;
+      cursorRef.current = page.nextCursor;
+      setState(prev => ({
+        clients: cursor ? [...prev.clients, ...page.clients] : page.clients,
+        nextCursor: page.nextCursor,
+        total: page.total,
+        loading: false
+      }));
+    } catch (error) {
+      if (request !== requestRef.current) return;
+      setState(prev => ({ ...prev, loading: false, error: error instanceof Error ? error.message : 'Could not load clients' }));
+    }
+  }, [api, pageSize]);
+
+  const search = useCallback((query: ClientListQuery) => {
+    queryRef.current = query;
+    cursorRef.current = null;
+    return load(query);
+  }, [load]);
+
+  const loadMore = useCallback(async () => {
+    if (cursorRef.current) await load(queryRef.current, cursorRef.current);
+  }, [load]);
+
+  return { ...state, search, loadMore };
+}
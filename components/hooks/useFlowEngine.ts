@@ -0,0 +1,16 @@
+// Custom hook that runs declarative flows against the chat
+import { useMemo, useRef } from 'react';
+import { createFlowRunner, type FlowEngineHost } from '../flow-runner';
+
+export type { FlowEngineHost } from '../flow-runner';
+
+/**
+ * Flow runner bound to the chat. The host is read through a ref, so callers
+ * can pass a fresh object every render without restarting the flow.
+ */
+export function useFlowEngine(host: FlowEngineHost) {
+  const hostRef = useRef(host);
+  hostRef.current = host;
+
+  return useMemo(() => createFlowRunner(() => hostRef.current), []);
+}
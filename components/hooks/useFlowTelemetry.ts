@@ -0,0 +1,93 @@
+// Custom hook that reports flow progress to the chat event bus
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import type { EventBus } from '../../services/eventBus';
+
+interface TrackedRun {
+  flowId: string;
+  runId: string;
+  stepId: string | null;
+  completedSteps: string[];
+}
+
+function generateRunId(flowId: string): string {
+  const random = Math.random().toString(36).substr(2, 9);
+  return `${flowId}_${Date.now()}_${random}`;
+}
+
+/**
+ * Tracks the flow the chat is running so its events share a run id. A run
+ * that is replaced, reset or unmounted before it ends counts as abandoned
+ * at the step it was on.
+ */
+export function useFlowTelemetry(events: EventBus) {
+  const runRef = useRef<TrackedRun | null>(null);
+
+  const abandonFlow = useCallback(() => {
+    const run = runRef.current;
+    runRef.current = null;
+    if (!run) return;
+    events.emit('step_abandoned', {
+      flowId: run.flowId,
+      runId: run.runId,
+      stepId: run.stepId,
+      completedSteps: run.completedSteps
+    });
+  }, [events]);
+
+  const startFlow = useCallback((flowId: string, { resumed = false } = {}) => {
+    abandonFlow();
+    const run: TrackedRun = { flowId, runId: generateRunId(flowId), stepId: null, completedSteps: [] };
+    runRef.current = run;
+    events.emit('flow_started', { flowId, runId: run.runId, ...(resumed ? { resumed } : {}) });
+  }, [events, abandonFlow]);
+
+  // The flow finished; nothing left to abandon
+  const endFlow = useCallback(() => {
+    runRef.current = null;
+  }, []);
+
+  const setStep = useCallback((stepId: string | null) => {
+    if (runRef.current) runRef.current.stepId = stepId;
+  }, []);
+
+  const completeStep = useCallback((flowId: string, stepId: string) => {
+    const run = runRef.current;
+    if (!run || run.flowId !== flowId || run.completedSteps.includes(stepId)) return;
+    run.completedSteps.push(stepId);
+    events.emit('step_completed', { flowId, runId: run.runId, stepId });
+  }, [events]);
+
+  const moduleInteraction = useCallback((stepId: string | null, event: string, target?: string) => {
+    const run = runRef.current;
+    events.emit('module_interaction', {
+      flowId: run?.flowId ?? null,
+      runId: run?.runId ?? null,
+      stepId: stepId ?? run?.stepId ?? null,
+      event,
+      ...(target !== undefined ? { target } : {})
+    });
+  }, [events]);
+
+  const reportError = useCallback((source: string, error: unknown) => {
+    const run = runRef.current;
+    events.emit('error', {
+      source,
+      message: error instanceof Error ? error.message : String(error),
+      flowId: run?.flowId ?? null,
+      stepId: run?.stepId ?? null
+    });
+  }, [events]);
+
+  // Closing the chat mid-flow abandons it
+  useEffect(() => abandonFlow, [abandonFlow]);
+
+  return useMemo(() => ({
+    startFlow,
+    endFlow,
+    abandonFlow,
+    setStep,
+    completeStep,
+    moduleInteraction,
+    reportError
+  }), [startFlow, endFlow, abandonFlow, setStep, completeStep, moduleInteraction, reportError]);
+}
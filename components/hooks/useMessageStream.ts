@@ -0,0 +1,75 @@
+// Incremental rendering of assistant message text
+import { useCallback, useState, type Dispatch, type SetStateAction } from 'react';
+import type { Message } from '../chat-types';
+import { chunkText } from '../chat-utils';
+import { systemClock, type Clock } from '../../services/clock';
+
+// Delay between chunks when revealing text that is already complete
+const CHUNK_INTERVAL_MS = 40;
+
+/**
+ * Resolve after ms, or as soon as the signal aborts
+ */
+export function wait(ms: number, signal: AbortSignal, clock: Clock = systemClock): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) return resolve();
+    const timeoutId = clock.setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clock.clearTimeout(timeoutId);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Yield complete text a few words at a time, so local replies read like a
+ * streamed backend response
+ */
+export async function* revealText(
+  text: string,
+  signal: AbortSignal,
+  interval = CHUNK_INTERVAL_MS,
+  clock: Clock = systemClock
+): AsyncGenerator<string> {
+  for (const chunk of chunkText(text)) {
+    if (signal.aborted) return;
+    yield chunk;
+    await wait(interval, signal, clock);
+  }
+}
+
+export function useMessageStream(setMessages: Dispatch<SetStateAction<Message[]>>) {
+  // Message currently receiving chunks
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+
+  /**
+   * Append chunks to a message until the stream ends or the signal aborts.
+   * Resolves true when the text completed, false when it was stopped.
+   */
+  const streamInto = useCallback(async (
+    messageId: string,
+    chunks: AsyncIterable<string>,
+    signal: AbortSignal
+  ) => {
+    const update = (patch: (message: Message) => Partial<Message>) => {
+      setMessages(prev => prev.map(msg => (msg.id === messageId ? { ...msg, ...patch(msg) } : msg)));
+    };
+
+    setStreamingId(messageId);
+    try {
+      for await (const chunk of chunks) {
+        if (signal.aborted) break;
+        update(msg => ({ content: msg.content + chunk }));
+      }
+    } finally {
+      update(() => ({ isStreaming: false, isStopped: signal.aborted || undefined }));
+      setStreamingId(current => (current === messageId ? null : current));
+    }
+    return !signal.aborted;
+  }, [setMessages]);
+
+  return { streamingId, streamInto };
+}
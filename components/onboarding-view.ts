@@ -0,0 +1,102 @@
+// Client onboarding runs in chat: a ProcessState with a line per step, and
+// the resume and roll back options for runs that stopped part way
+import type { OnboardingLog, OnboardingStepId, OnboardingStepRecord } from '../services/onboardingSaga';
+import type { ProcessStep } from './ui-modules/ProcessState';
+import type { ModuleDescriptor } from './ui-modules/registry';
+import type { SuggestedAction } from './chat-types';
+
+const UNDONE: Record<OnboardingStepId, string> = {
+  'create-client': 'Client disabled',
+  'create-delivery-method': 'Delivery method removed',
+  'create-delivery-account': 'Delivery account removed'
+};
+
+function toProcessStep(record: OnboardingStepRecord, log: OnboardingLog): ProcessStep {
+  const { id, label } = record;
+  switch (record.status) {
+    case 'done':
+      return { id, label, status: 'done', detail: id === 'create-client' ? `Client ${log.resources.clientUID}` : undefined };
+    case 'compensated':
+      return { id, label, status: 'undone', detail: UNDONE[id] };
+    case 'compensation-failed':
+      return { id, label, status: 'failed', detail: `Could not undo: ${record.error}` };
+    case 'failed':
+      return { id, label, status: 'failed', detail: record.error };
+    default:
+      return { id, label, status: record.status };
+  }
+}
+
+const STATE: Record<OnboardingLog['status'], 'processing' | 'completed' | 'failed'> = {
+  'running': 'processing',
+  'rolling-back': 'processing',
+  'completed': 'completed',
+  'rolled-back': 'completed',
+  'failed': 'failed',
+  'rollback-failed': 'failed'
+};
+
+const DETAIL: Record<OnboardingLog['status'], string> = {
+  'running': 'Setting up the client in LeadExec',
+  'rolling-back': 'Undoing the completed steps',
+  'completed': 'Client set up',
+  'rolled-back': 'Rolled back',
+  'failed': 'Stopped at a failed step',
+  'rollback-failed': 'Rollback stopped at a failed step'
+};
+
+/** A request being retried shows its attempt on the overall state */
+export function onboardingProcessModule(log: OnboardingLog, retry?: { attempt: number; maxAttempts: number; detail: string }): ModuleDescriptor {
+  return {
+    kind: 'process-state',
+    props: {
+      state: STATE[log.status],
+      detail: retry?.detail ?? DETAIL[log.status],
+      ...(retry ? { attempt: retry.attempt, maxAttempts: retry.maxAttempts } : {}),
+      steps: log.steps.map(record => toProcessStep(record, log))
+    }
+  };
+}
+
+/** Whether the run created anything that a rollback would undo */
+export function hasCompletedSteps(log: OnboardingLog): boolean {
+  return log.steps.some(record => record.status === 'done' || record.status === 'compensation-failed');
+}
+
+/** Message for a run that stopped after creating part of the client */
+export function describePartialOnboarding(log: OnboardingLog): string {
+  const done = log.steps.filter(record => record.status === 'done').map(record => record.label.toLowerCase());
+  const failed = log.steps.find(record => record.status === 'failed');
+  return `${log.companyName} is only partly set up: ${done.join(' and ')} succeeded, but ${failed?.label.toLowerCase() ?? 'a step'} failed. ` +
+    'Resume from here to try that step again, or roll back what was created.';
+}
+
+/** Message for a run that a page reload cut short, after OnboardingOrchestrator.recover */
+export function describeInterruptedOnboarding(log: OnboardingLog): string {
+  switch (log.status) {
+    case 'completed':
+      return `${log.companyName} was set up before the page reloaded.`;
+    case 'rolled-back':
+      return `The setup of ${log.companyName} was rolled back before the page reloaded.`;
+    default:
+      return log.status === 'failed' && hasCompletedSteps(log)
+        ? describePartialOnboarding(log)
+        : `The page was reloaded while ${log.companyName} was being set up, so I haven't run it again.`;
+  }
+}
+
+export function onboardingActions(log: OnboardingLog, canResume: boolean): SuggestedAction[] {
+  const actions: SuggestedAction[] = [];
+  if (log.status === 'failed' && canResume) {
+    actions.push({ id: 'resume-onboarding', label: 'Resume From Here', command: { type: 'resume-onboarding', logId: log.id } });
+  }
+  if (hasCompletedSteps(log)) {
+    actions.push({
+      id: 'rollback-onboarding',
+      label: log.status === 'rollback-failed' ? 'Try Rolling Back Again' : 'Roll Back',
+      variant: 'outline',
+      command: { type: 'rollback-onboarding', logId: log.id }
+    });
+  }
+  return actions;
+}
@@ -0,0 +1,28 @@
+// Warning shown when a flow that changes LeadExec data starts against a
+// production account
+import type { ApiConnection } from '../services/apiSettings';
+import type { AddMessageOptions } from './chat-types';
+
+/** Tools whose flows create or change clients in LeadExec */
+export const MUTATING_TOOLS = ['create-new-client', 'create-client-simplified', 'bulk-client-upload'];
+
+export function targetsProduction(toolId: string, connection: ApiConnection | null): connection is ApiConnection {
+  return connection?.environment === 'production' && MUTATING_TOOLS.includes(toolId);
+}
+
+export function productionWarning(connection: ApiConnection): { content: string } & Pick<AddMessageOptions, 'component' | 'commands'> {
+  return {
+    content: `You're connected to ${connection.name}, a production account.`,
+    component: {
+      kind: 'alert',
+      props: {
+        type: 'warning',
+        title: 'Production',
+        message: 'Clients created here are real and can receive leads straight away. Switch to a sandbox connection to try things out.',
+        dismissible: false,
+        actions: [{ id: 'api-settings', label: 'API Settings', variant: 'secondary' }]
+      }
+    },
+    commands: { 'api-settings': { type: 'open-api-settings' } }
+  };
+}
@@ -0,0 +1,60 @@
+// Slash commands available in the chat composer
+import { Building, Download, HelpCircle, RotateCcw, Search, Upload, type LucideIcon } from 'lucide-react';
+
+export type SlashCommandId = 'create-client' | 'bulk-upload' | 'clients' | 'help' | 'reset' | 'export';
+
+export interface SlashCommand {
+  id: SlashCommandId;
+  /** Argument placeholder shown in the menu, e.g. "<query>" */
+  argument?: string;
+  description: string;
+  icon: LucideIcon;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { id: 'create-client', argument: '[details]', description: 'Start the client setup, prefilled from any details given', icon: Building },
+  { id: 'bulk-upload', description: 'Upload multiple clients from a spreadsheet', icon: Upload },
+  { id: 'clients', argument: '<query>', description: 'Search existing clients', icon: Search },
+  { id: 'help', argument: '<topic>', description: 'Find guides and documentation', icon: HelpCircle },
+  { id: 'reset', description: 'Clear the conversation and start over', icon: RotateCcw },
+  { id: 'export', argument: '<format>', description: 'Download this conversation as Markdown, JSON or HTML', icon: Download }
+];
+
+export interface ParsedSlashCommand {
+  /** Command name as typed, without the slash */
+  name: string;
+  /** Undefined when the name is not a known command */
+  command?: SlashCommand;
+  args: string;
+}
+
+/**
+ * Split "/name args" into its parts. Returns null for regular messages.
+ */
+export function parseSlashCommand(input: string): ParsedSlashCommand | null {
+  const match = input.trim().match(/^\/(\S*)\s*([\s\S]*)$/);
+  if (!match) return null;
+
+  const name = match[1].toLowerCase();
+  return {
+    name,
+    command: SLASH_COMMANDS.find(command => command.id === name),
+    args: match[2].trim()
+  };
+}
+
+/**
+ * Commands to suggest while the user is still typing a command name.
+ * Empty once the name is complete (a space was typed) or for regular text.
+ */
+export function matchSlashCommands(input: string): SlashCommand[] {
+  const match = input.match(/^\/(\S*)$/);
+  if (!match) return [];
+
+  const query = match[1].toLowerCase();
+  const prefixed = SLASH_COMMANDS.filter(command => command.id.startsWith(query));
+  const containing = SLASH_COMMANDS.filter(command =>
+    !command.id.startsWith(query) && command.id.includes(query)
+  );
+  return [...prefixed, ...containing];
+}
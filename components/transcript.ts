@@ -0,0 +1,175 @@
+// Conversation transcripts for attaching to tickets, rendered client-side
+import type { Message } from './chat-types';
+import { summarizeModule, type ModuleDescriptor } from './ui-modules/registry';
+import { SECRET_KEY } from '../services/apiCallLog';
+
+export type TranscriptFormat = 'markdown' | 'json' | 'html';
+
+export interface TranscriptModule {
+  kind: string;
+  title?: string;
+  lines: string[];
+}
+
+export interface TranscriptEntry {
+  id: string;
+  sender: 'user' | 'assistant';
+  timestamp: string;
+  content: string;
+  modules: TranscriptModule[];
+  sources: Array<{ title: string; url: string }>;
+  /** The step was answered again later in the conversation */
+  superseded?: boolean;
+}
+
+export interface Transcript {
+  title: string;
+  exportedAt: string;
+  entries: TranscriptEntry[];
+}
+
+// "**Label:** value" lines in assistant copy, e.g. generated credentials
+const LABELLED_VALUE = /(\*\*([\w ]*):\*\*\s*)\S+/g;
+
+/**
+ * Replace credential values written into message text
+ */
+export function redactSecrets(text: string): string {
+  return text.replace(LABELLED_VALUE, (line, prefix: string, label: string) =>
+    (SECRET_KEY.test(label) ? `${prefix}[redacted]` : line));
+}
+
+/**
+ * Collect the exportable part of a conversation. Modules are summarized as
+ * text; getModules supplies them for messages whose modules are not stored
+ * on the message itself (guided flow steps).
+ */
+export function buildTranscript(
+  messages: Message[],
+  getModules: (message: Message) => ModuleDescriptor[] = message => (message.component ? [message.component] : []),
+  title = 'LeadExec Copilot conversation'
+): Transcript {
+  const entries = messages
+    .filter(message => !message.isWelcome && message.category !== 'processing')
+    .map<TranscriptEntry>(message => ({
+      id: message.id,
+      sender: message.sender,
+      timestamp: message.timestamp.toISOString(),
+      content: redactSecrets(message.content),
+      modules: getModules(message)
+        .map(descriptor => ({
+          kind: descriptor.kind,
+          title: (descriptor.props as { title?: string }).title,
+          lines: summarizeModule(descriptor).map(redactSecrets)
+        }))
+        .filter(module => module.lines.length > 0),
+      sources: (message.sources || []).map(({ title, url }) => ({ title, url })),
+      superseded: message.isSuperseded || undefined
+    }));
+
+  return { title, exportedAt: new Date().toISOString(), entries };
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
+
+function senderName(entry: TranscriptEntry): string {
+  return entry.sender === 'user' ? 'You' : 'Copilot';
+}
+
+function toMarkdown(transcript: Transcript): string {
+  const blocks = transcript.entries.map(entry => {
+    const lines = [`### ${senderName(entry)} · ${formatTime(entry.timestamp)}${entry.superseded ? ' (outdated)' : ''}`, ''];
+    if (entry.content) lines.push(entry.content, '');
+
+    entry.modules.forEach(module => {
+      if (module.title) lines.push(`> **${module.title}**`);
+      module.lines.forEach(line => lines.push(`> - ${line}`));
+      lines.push('');
+    });
+
+    if (entry.sources.length > 0) {
+      lines.push('Sources:');
+      entry.sources.forEach(source => lines.push(`- [${source.title}](${source.url})`));
+      lines.push('');
+    }
+    return lines.join('\n');
+  });
+
+  return [`# ${transcript.title}`, '', `Exported ${formatTime(transcript.exportedAt)}`, '', '---', '', ...blocks].join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; font-size: 14px; color: #1f2937; max-width: 760px; margin: 40px auto; padding: 0 16px; }
+  h1 { font-size: 20px; margin-bottom: 4px; }
+  .meta { color: #6b7280; font-size: 12px; }
+  .entry { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px 16px; margin: 12px 0; }
+  .entry.user { background: #f9fafb; }
+  .entry.superseded { opacity: 0.6; }
+  .content { white-space: pre-line; line-height: 1.5; }
+  .module { border-left: 3px solid #e5e7eb; margin: 8px 0; padding-left: 12px; }
+  .module ul, .sources ul { margin: 4px 0; padding-left: 18px; }
+`;
+
+function toHtml(transcript: Transcript): string {
+  const entries = transcript.entries.map(entry => {
+    const modules = entry.modules.map(module => `
+      <div class="module">
+        ${module.title ? `<strong>${escapeHtml(module.title)}</strong>` : ''}
+        <ul>${module.lines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>
+      </div>`).join('');
+    const sources = entry.sources.length > 0 ? `
+      <div class="sources">Sources:
+        <ul>${entry.sources.map(source => `<li><a href="${escapeHtml(source.url)}">${escapeHtml(source.title)}</a></li>`).join('')}</ul>
+      </div>` : '';
+
+    return `
+    <section class="entry ${entry.sender}${entry.superseded ? ' superseded' : ''}">
+      <div class="meta">${senderName(entry)} · ${escapeHtml(formatTime(entry.timestamp))}${entry.superseded ? ' · outdated' : ''}</div>
+      <div class="content">${escapeHtml(entry.content)}</div>${modules}${sources}
+    </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(transcript.title)}</title>
+  <style>${HTML_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(transcript.title)}</h1>
+  <div class="meta">Exported ${escapeHtml(formatTime(transcript.exportedAt))}</div>${entries}
+</body>
+</html>
+`;
+}
+
+export const TRANSCRIPT_FORMATS: Record<TranscriptFormat, {
+  label: string;
+  extension: string;
+  mimeType: string;
+  render: (transcript: Transcript) => string;
+}> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown', render: toMarkdown },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json', render: transcript => JSON.stringify(transcript, null, 2) },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html', render: toHtml }
+};
+
+/**
+ * Resolve a format name as typed, e.g. "md" or "HTML"
+ */
+export function parseTranscriptFormat(name: string): TranscriptFormat | null {
+  const normalized = name.trim().toLowerCase();
+  if (normalized === '' || normalized === 'md') return 'markdown';
+  return normalized in TRANSCRIPT_FORMATS ? normalized as TranscriptFormat : null;
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import * as Icons from 'lucide-react';
+import { Button } from '../ui/button';
+import { LockableModule, ModuleCallbacks } from './shared/types';
+
+export type ActionButton = {
+  id: string;
+  label: string;
+  /** Lucide icon name */
+  icon?: string;
+  variant?: 'default' | 'outline' | 'secondary' | 'ghost';
+  disabled?: boolean;
+};
+
+// A row of buttons that moves the conversation forward
+export interface ActionButtonsModule extends LockableModule {
+  kind: 'actions';
+  buttons: ActionButton[];
+  size?: 'default' | 'sm';
+}
+
+export interface ActionButtonsProps extends ActionButtonsModule, ModuleCallbacks {}
+
+export function ActionButtons({
+  buttons,
+  size = 'default',
+  disabled = false,
+  locked = false,
+  onAction
+}: ActionButtonsProps) {
+  const compact = size === 'sm';
+
+  return (
+    <div className={compact ? 'flex flex-wrap gap-2' : 'flex gap-3'}>
+      {buttons.map(button => {
+        const Icon = button.icon ? (Icons as any)[button.icon] : null;
+        return (
+          <Button
+            key={button.id}
+            variant={button.variant || 'default'}
+            size={compact ? 'sm' : 'default'}
+            onClick={() => onAction?.(button.id)}
+            disabled={disabled || locked || button.disabled}
+            className={compact || Icon ? 'gap-2 font-medium' : 'font-medium'}
+          >
+            {Icon && <Icon className={compact ? 'w-3 h-3' : 'w-4 h-4'} />}
+            {button.label}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
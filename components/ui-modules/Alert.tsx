@@ -9,7 +9,7 @@ type AlertType = 'success'|'error'|'info'|'warning';
 
 type Action = { id: string; label: string; variant?: 'default'|'secondary'|'ghost'; disabled?: boolean };
 
-type AlertModule = {
+export type AlertModule = {
   id?: string;
   title?: string;
   description?: string;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import { BaseModule, ModuleHeader, TYPOGRAPHY } from './shared';
+
+export type ChangeItem = {
+  id: string;
+  label: string;
+  /** Previous value; omitted when the value is new */
+  before?: string;
+  /** New value; omitted when the value was removed */
+  after?: string;
+};
+
+// Before/after list of values that changed
+export interface ChangeListModule extends BaseModule {
+  kind: 'changes';
+  changes: ChangeItem[];
+}
+
+export interface ChangeListProps extends ChangeListModule {}
+
+export function ChangeList({
+  title,
+  description,
+  helpUrl,
+  empty = 'Nothing changed',
+  changes
+}: ChangeListProps) {
+  return (
+    <div className="space-y-4">
+      <ModuleHeader title={title} description={description} helpUrl={helpUrl} />
+
+      {changes.length === 0 ? (
+        <p className={TYPOGRAPHY.captionText}>{empty}</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {changes.map(change => (
+            <li key={change.id} className="py-2 first:pt-0 last:pb-0 flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-3">
+              <span className="text-sm font-medium sm:w-48 flex-shrink-0">{change.label}</span>
+              <span className="flex items-center gap-2 text-sm min-w-0">
+                {change.before !== undefined && (
+                  <span className="text-muted-foreground line-through truncate">{change.before || '—'}</span>
+                )}
+                {change.before !== undefined && change.after !== undefined && (
+                  <ArrowRight className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                )}
+                {change.after !== undefined ? (
+                  <span className="truncate">{change.after || '—'}</span>
+                ) : (
+                  <span className={TYPOGRAPHY.captionText}>removed</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -21,7 +21,7 @@ type Choice = {
 
 type Action = { id: string; label: string; variant?: 'default'|'secondary'|'ghost'; disabled?: boolean };
 
-type ChoiceListModule = {
+export type ChoiceListModule = {
   id?: string;
   title?: string;
   description?: string;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
@@ -7,14 +7,17 @@ import { Checkbox } from '../ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Search, Filter, Users, Building, Mail, CheckCircle, X, ChevronDown } from 'lucide-react';
+import { useClientBrowser } from '../hooks/useClientBrowser';
+import { leadexecApi, type ClientListQuery, type ClientStatus, type LeadExecAPI, type LeadExecClient } from '../../services/leadexecApi';
 
 interface Client {
   id: string;
   companyName: string;
   email: string;
-  status: 'Active' | 'Inactive' | 'Pending';
-  leads: number;
-  lastActivity: Date;
+  status: 'New' | 'Active' | 'Inactive' | 'Pending';
+  /** Unknown for clients read from the API */
+  leads?: number;
+  lastActivity?: Date;
   tags: string[];
   deliveryMethod: string;
 }
@@ -22,7 +25,9 @@ interface Client {
 interface ClientSelectorProps {
   title?: string;
   description?: string;
-  clients: Client[];
+  clients?: Client[];
+  /** Browse the account's clients through the API instead of clients; search, status and sort run on the server */
+  api?: Pick<LeadExecAPI, 'listClients'>;
   mode?: 'single' | 'multiple';
   preSelected?: string[];
   onSelectionChange: (selectedClients: Client[]) => void;
@@ -31,10 +36,31 @@ interface ClientSelectorProps {
   maxHeight?: string;
 }
 
+const SERVER_SORT: Record<string, ClientListQuery['sort']> = {
+  name: 'companyName',
+  activity: 'dateAdded',
+  status: 'status'
+};
+
+const SERVER_STATUSES: ClientStatus[] = ['New', 'Active', 'Inactive'];
+
+function toSelectorClient(client: LeadExecClient): Client {
+  return {
+    id: String(client.clientUID),
+    companyName: client.companyName || client.username,
+    email: client.email,
+    status: client.status as Client['status'],
+    lastActivity: client.dateAdded ? new Date(client.dateAdded) : undefined,
+    tags: [],
+    deliveryMethod: ''
+  };
+}
+
 export function ClientSelector({
   title = "Select Clients",
   description,
-  clients,
+  clients = [],
+  api,
   mode = 'multiple',
   preSelected = [],
   onSelectionChange,
@@ -55,7 +81,31 @@ export function ClientSelector({
   const [deliveryMethodFilter, setDeliveryMethodFilter] = useState('all');
   const [tagFilter, setTagFilter] = useState('');
 
-  const filteredClients = clients.filter(client => {
+  const browser = useClientBrowser(api ?? leadexecApi);
+  const { search: searchServer } = browser;
+  // Every client loaded so far, so selections survive new searches
+  const loadedClients = useRef(new Map<string, Client>());
+  const remoteClients = useMemo(() => {
+    const page = browser.clients.map(toSelectorClient);
+    page.forEach(client => loadedClients.current.set(client.id, client));
+    return page;
+  }, [browser.clients]);
+
+  useEffect(() => {
+    if (!api) return;
+    const status = SERVER_STATUSES.find(item => item === statusFilter);
+    const timer = setTimeout(() => searchServer({
+      search: searchQuery,
+      status,
+      sort: SERVER_SORT[sortBy],
+      order: sortBy === 'activity' ? 'desc' : 'asc'
+    }), searchQuery ? 250 : 0);
+    return () => clearTimeout(timer);
+  }, [api, searchQuery, statusFilter, sortBy, searchServer]);
+
+  const findClient = (id: string) => (api ? loadedClients.current.get(id) : clients.find(client => client.id === id));
+
+  const filteredClients = api ? remoteClients : clients.filter(client => {
     // Basic search
     const matchesSearch = !searchQuery || 
       client.companyName.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -66,8 +116,8 @@ export function ClientSelector({
     const matchesStatus = statusFilter === 'all' || client.status === statusFilter;
 
     // Leads filter
-    const matchesLeads = (!minLeads || client.leads >= parseInt(minLeads)) &&
-                        (!maxLeads || client.leads <= parseInt(maxLeads));
+    const matchesLeads = (!minLeads || (client.leads ?? 0) >= parseInt(minLeads)) &&
+                        (!maxLeads || (client.leads ?? 0) <= parseInt(maxLeads));
 
     // Delivery method filter
     const matchesDelivery = deliveryMethodFilter === 'all' || 
@@ -80,14 +130,14 @@ export function ClientSelector({
     return matchesSearch && matchesStatus && matchesLeads && matchesDelivery && matchesTag;
   });
 
-  const sortedClients = [...filteredClients].sort((a, b) => {
+  const sortedClients = api ? filteredClients : [...filteredClients].sort((a, b) => {
     switch (sortBy) {
       case 'name':
         return a.companyName.localeCompare(b.companyName);
       case 'leads':
-        return b.leads - a.leads;
+        return (b.leads ?? 0) - (a.leads ?? 0);
       case 'activity':
-        return new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime();
+        return new Date(b.lastActivity ?? 0).getTime() - new Date(a.lastActivity ?? 0).getTime();
       case 'status':
         return a.status.localeCompare(b.status);
       default:
@@ -95,7 +145,7 @@ export function ClientSelector({
     }
   });
 
-  const selectedClients = clients.filter(client => selectedIds.has(client.id));
+  const selectedClients = Array.from(selectedIds).flatMap(id => findClient(id) ?? []);
 
   useEffect(() => {
     onSelectionChange(selectedClients);
@@ -133,9 +183,9 @@ export function ClientSelector({
 
   const getQuickFilters = () => {
     const activeClients = clients.filter(c => c.status === 'Active').length;
-    const highVolumeClients = clients.filter(c => c.leads > 100).length;
+    const highVolumeClients = clients.filter(c => (c.leads ?? 0) > 100).length;
     const recentClients = clients.filter(c => 
-      new Date(c.lastActivity).getTime() > Date.now() - 7 * 24 * 60 * 60 * 1000
+      c.lastActivity && new Date(c.lastActivity).getTime() > Date.now() - 7 * 24 * 60 * 60 * 1000
     ).length;
 
     return [
@@ -188,7 +238,7 @@ export function ClientSelector({
             </div>
             <div className="flex flex-wrap gap-1">
               {Array.from(selectedIds).slice(0, 5).map(id => {
-                const client = clients.find(c => c.id === id);
+                const client = findClient(id);
                 return client ? (
                   <Badge key={id} variant="secondary" className="text-xs font-normal">
                     {client.companyName}
@@ -271,7 +321,11 @@ export function ClientSelector({
                     <SelectItem value="all">All Status</SelectItem>
                     <SelectItem value="Active">Active</SelectItem>
                     <SelectItem value="Inactive">Inactive</SelectItem>
-                    <SelectItem value="Pending">Pending</SelectItem>
+                    {api ? (
+                      <SelectItem value="New">New</SelectItem>
+                    ) : (
+                      <SelectItem value="Pending">Pending</SelectItem>
+                    )}
                   </SelectContent>
                 </Select>
               </div>
@@ -331,7 +385,7 @@ export function ClientSelector({
           {/* Results Header */}
           <div className="flex items-center justify-between">
             <span className="text-xs font-normal text-muted-foreground">
-              Showing {sortedClients.length} of {clients.length} clients
+              Showing {sortedClients.length} of {api ? browser.total : clients.length} clients
             </span>
             {mode === 'multiple' && (
               <Button
@@ -374,13 +428,17 @@ export function ClientSelector({
                           <Mail className="w-3 h-3" />
                           {client.email}
                         </span>
-                        <span className="flex items-center gap-1">
-                          <Users className="w-3 h-3" />
-                          {client.leads} leads
-                        </span>
-                        <span>
-                          {new Date(client.lastActivity).toLocaleDateString()}
-                        </span>
+                        {client.leads !== undefined && (
+                          <span className="flex items-center gap-1">
+                            <Users className="w-3 h-3" />
+                            {client.leads} leads
+                          </span>
+                        )}
+                        {client.lastActivity && (
+                          <span>
+                            {new Date(client.lastActivity).toLocaleDateString()}
+                          </span>
+                        )}
                       </div>
                       {client.tags.length > 0 && (
                         <div className="flex flex-wrap gap-1 mt-1">
@@ -400,6 +458,18 @@ export function ClientSelector({
                   </div>
                 </div>
                 ))}
+                {api && browser.error && (
+                  <div className="p-3 text-xs font-normal text-destructive">{browser.error}</div>
+                )}
+                {api && browser.nextCursor && (
+                  <button
+                    onClick={() => browser.loadMore()}
+                    disabled={browser.loading}
+                    className="w-full p-2 text-xs font-normal text-muted-foreground hover:bg-accent/30 disabled:opacity-50"
+                  >
+                    {browser.loading ? 'Loading...' : 'Load more...'}
+                  </button>
+                )}
               </div>
             </div>
           </div>
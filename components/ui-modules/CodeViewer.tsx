@@ -0,0 +1,76 @@
+import React from 'react';
+import { toast } from 'sonner';
+import { Copy } from 'lucide-react';
+import { Button } from '../ui/button';
+import { BaseModule, ModuleHeader, TYPOGRAPHY } from './shared';
+
+// Read-only code or data, e.g. the JSON a request would send
+export interface CodeViewerModule extends BaseModule {
+  kind: 'code-viewer';
+  code: string;
+  /** JSON that parses is shown indented */
+  language?: 'json' | 'text';
+  /** Shown above the code, e.g. the request it belongs to */
+  caption?: string;
+  /** Show a copy button (default true) */
+  copyable?: boolean;
+}
+
+export interface CodeViewerProps extends CodeViewerModule {}
+
+function formatCode(code: string, language: CodeViewerModule['language']): string {
+  if (language !== 'json') return code;
+  try {
+    return JSON.stringify(JSON.parse(code), null, 2);
+  } catch {
+    return code;
+  }
+}
+
+export function CodeViewer({
+  title,
+  description,
+  helpUrl,
+  empty = 'Nothing to show',
+  code,
+  language = 'text',
+  caption,
+  copyable = true
+}: CodeViewerProps) {
+  const formatted = formatCode(code, language);
+
+  const copy = () => {
+    navigator.clipboard.writeText(formatted).then(() => {
+      toast.success('Copied to clipboard');
+    }).catch(() => {
+      toast.error('Could not copy to clipboard');
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <ModuleHeader title={title} description={description} helpUrl={helpUrl} />
+
+      {!formatted.trim() ? (
+        <p className={TYPOGRAPHY.captionText}>{empty}</p>
+      ) : (
+        <div className="space-y-1">
+          {(caption || copyable) && (
+            <div className="flex items-center justify-between gap-2">
+              <span className={`${TYPOGRAPHY.captionText} font-mono truncate`}>{caption}</span>
+              {copyable && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 gap-1" onClick={copy}>
+                  <Copy className="w-3 h-3" />
+                  Copy
+                </Button>
+              )}
+            </div>
+          )}
+          <pre className="text-xs font-mono bg-muted rounded-md p-3 overflow-auto max-h-96 whitespace-pre">
+            {formatted}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
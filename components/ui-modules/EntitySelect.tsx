@@ -21,7 +21,7 @@ type Action = {
   disabled?: boolean; 
 };
 
-type EntitySelectModule = {
+export type EntitySelectModule = {
   id?: string;
   title?: string;
   description?: string;
@@ -34,6 +34,8 @@ type EntitySelectModule = {
   mode?: 'single' | 'multiple';
   value?: string | string[];
   placeholder?: string;
+  /** Search text the options were loaded for */
+  query?: string;
   allowClear?: boolean;
   options?: EntityOption[];
   remote?: boolean;
@@ -63,6 +65,7 @@ export function EntitySelect({
   mode = 'single',
   value,
   placeholder = 'Search…',
+  query: initialQuery = '',
   allowClear = true,
   options = [],
   remote = false,
@@ -77,11 +80,13 @@ export function EntitySelect({
   onRequestCreate
 }: EntitySelectProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [query, setQuery] = useState('');
-  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [query, setQuery] = useState(initialQuery);
+  const [debouncedQuery, setDebouncedQuery] = useState(initialQuery);
   const [selectedOptions, setSelectedOptions] = useState<EntityOption[]>([]);
   const [loadingMore, setLoadingMore] = useState(false);
-  const [hasSearched, setHasSearched] = useState(false);
+  // Query the remote options reflect; null until the first search
+  const searchedRef = useRef<string | null>(loading || options.length > 0 ? initialQuery : null);
+  const [hasSearched, setHasSearched] = useState(searchedRef.current !== null);
   
   const debounceRef = useRef<NodeJS.Timeout>();
   const containerRef = useRef<HTMLDivElement>(null);
@@ -115,13 +120,23 @@ export function EntitySelect({
     };
   }, [query, debounceMs]);
 
+  // A new page or result set has arrived
+  useEffect(() => {
+    setLoadingMore(false);
+  }, [options, nextCursor]);
+
+  const requestSearch = useCallback((searchQuery: string) => {
+    if (!onRequestSearch) return;
+    searchedRef.current = searchQuery;
+    setHasSearched(true);
+    onRequestSearch(searchQuery, pageSize);
+  }, [pageSize, onRequestSearch]);
+
   // Trigger search when debounced query changes
   useEffect(() => {
-    if (remote && debouncedQuery !== '' && onRequestSearch) {
-      setHasSearched(true);
-      onRequestSearch(debouncedQuery, pageSize);
-    }
-  }, [debouncedQuery, remote, pageSize, onRequestSearch]);
+    if (!remote || debouncedQuery === searchedRef.current) return;
+    if (debouncedQuery !== '' || searchedRef.current !== null) requestSearch(debouncedQuery);
+  }, [debouncedQuery, remote, requestSearch]);
 
   // Handle clicks outside to close
   useEffect(() => {
@@ -139,12 +154,11 @@ export function EntitySelect({
 
   const handleToggleOpen = useCallback(() => {
     setIsOpen(!isOpen);
-    if (!isOpen && remote && !hasSearched && onRequestSearch) {
+    if (!isOpen && remote && searchedRef.current === null) {
       // Initial load for remote
-      onRequestSearch('', pageSize);
-      setHasSearched(true);
+      requestSearch(query);
     }
-  }, [isOpen, remote, hasSearched, pageSize, onRequestSearch]);
+  }, [isOpen, remote, query, requestSearch]);
 
   const handleSearchChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const newQuery = e.target.value;
@@ -22,7 +22,7 @@ type Action = {
   disabled?: boolean; 
 };
 
-type FileDropModule = {
+export type FileDropModule = {
   id?: string;
   title?: string;
   description?: string;
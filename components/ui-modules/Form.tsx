@@ -45,7 +45,7 @@ type DeriveTarget = {
 
 type Action = { id: string; label: string; variant?: 'default'|'secondary'|'ghost'; disabled?: boolean };
 
-type FormModule = {
+export type FormModule = {
   id?: string;
   title?: string;
   description?: string;
@@ -59,6 +59,8 @@ type FormModule = {
   sections?: Section[];
   validations?: Validation[];
   derive?: DeriveTarget[];
+  /** Errors reported after a submission, e.g. by the server, keyed by field id; cleared as the fields change */
+  fieldErrors?: Record<string, string>;
   submitLabel?: string;
   cancelLabel?: string;
   disabled?: boolean;
@@ -87,6 +89,7 @@ export function Form({
   sections = [],
   validations = [],
   derive = [],
+  fieldErrors,
   submitLabel = 'Submit',
   cancelLabel = 'Cancel',
   disabled = false,
@@ -99,7 +102,7 @@ export function Form({
   derivedValues = {}
 }: FormProps) {
   const [values, setValues] = useState<Record<string, any>>({});
-  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>(() => ({ ...fieldErrors }));
   const [dirtyFields, setDirtyFields] = useState<Set<string>>(new Set());
   const [revealedSections, setRevealedSections] = useState<Set<string>>(new Set());
   const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
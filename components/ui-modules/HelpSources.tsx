@@ -15,7 +15,7 @@ type HelpResult = {
   badges?: string[];
 };
 
-type HelpSourcesModule = {
+export type HelpSourcesModule = {
   id?: string;
   title?: string;
   description?: string;
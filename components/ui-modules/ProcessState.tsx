@@ -1,15 +1,28 @@
 import React from 'react';
 import { Button } from '../ui/button';
-import { Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { Loader2, CheckCircle, AlertCircle, Circle, MinusCircle, RotateCcw } from 'lucide-react';
 import { ModuleContainer } from './shared';
 import { LockableModule, ModuleCallbacks } from './shared/types';
 
+/** One step of a multi-step process; undone steps were rolled back */
+export interface ProcessStep {
+  id: string;
+  label: string;
+  status: 'pending' | 'running' | 'done' | 'skipped' | 'failed' | 'undone';
+  detail?: string;
+}
+
 // Extend the base module with ProcessState-specific props
 export interface ProcessStateModule extends LockableModule {
   kind: 'process-state';
   state: 'processing' | 'completed' | 'failed';
   detail?: string;
   retryActionId?: string;
+  /** Attempt in progress when a request is being retried, counting the first */
+  attempt?: number;
+  maxAttempts?: number;
+  /** Progress of each step, listed under the overall state */
+  steps?: ProcessStep[];
 }
 
 export interface ProcessStateProps extends ProcessStateModule, ModuleCallbacks {}
@@ -18,9 +31,14 @@ export function ProcessState({
   state,
   detail,
   retryActionId,
+  attempt,
+  maxAttempts,
+  steps,
   onAction,
   ...baseProps
 }: ProcessStateProps) {
+  const retrying = state === 'processing' && attempt !== undefined && attempt > 1;
+
   const getIcon = () => {
     switch (state) {
       case 'processing':
@@ -37,7 +55,9 @@ export function ProcessState({
   const getStatusText = () => {
     switch (state) {
       case 'processing':
-        return 'Processing...';
+        return retrying
+          ? `Retrying (attempt ${attempt}${maxAttempts ? ` of ${maxAttempts}` : ''})...`
+          : 'Processing...';
       case 'completed':
         return 'Completed';
       case 'failed':
@@ -60,6 +80,23 @@ export function ProcessState({
     }
   };
 
+  const getStepIcon = (status: ProcessStep['status']) => {
+    switch (status) {
+      case 'running':
+        return <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />;
+      case 'done':
+        return <CheckCircle className="h-3.5 w-3.5 text-green-600" />;
+      case 'failed':
+        return <AlertCircle className="h-3.5 w-3.5 text-destructive" />;
+      case 'skipped':
+        return <MinusCircle className="h-3.5 w-3.5 text-muted-foreground" />;
+      case 'undone':
+        return <RotateCcw className="h-3.5 w-3.5 text-muted-foreground" />;
+      default:
+        return <Circle className="h-3.5 w-3.5 text-muted-foreground" />;
+    }
+  };
+
   return (
     <ModuleContainer {...baseProps} onAction={onAction} showStates={false}>
       <div className="flex items-center gap-3 p-4 border rounded-lg bg-card">
@@ -92,6 +129,20 @@ export function ProcessState({
           </Button>
         )}
       </div>
+
+      {steps && steps.length > 0 && (
+        <ol className="mt-2 space-y-1.5 px-4">
+          {steps.map(step => (
+            <li key={step.id} className="flex items-start gap-2 text-sm">
+              <span className="mt-0.5 flex-shrink-0">{getStepIcon(step.status)}</span>
+              <span className={step.status === 'skipped' || step.status === 'undone' ? 'text-muted-foreground' : ''}>
+                {step.label}
+                {step.detail && <span className="text-muted-foreground ml-2">{step.detail}</span>}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
     </ModuleContainer>
   );
 }
\ No newline at end of file
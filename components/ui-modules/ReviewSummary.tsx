@@ -0,0 +1,80 @@
+import React from 'react';
+import { Pencil } from 'lucide-react';
+import { Button } from '../ui/button';
+import { LockableModule, ModuleHeader, TYPOGRAPHY } from './shared';
+
+export type ReviewItem = {
+  id: string;
+  label: string;
+  value: string;
+};
+
+export type ReviewSection = {
+  id: string;
+  title: string;
+  items: ReviewItem[];
+  /** Where the section's jump-back link leads; no link when omitted */
+  editTarget?: string;
+  editLabel?: string;
+};
+
+// Read-only recap of collected values, grouped into sections
+export interface ReviewSummaryModule extends LockableModule {
+  kind: 'review';
+  sections: ReviewSection[];
+}
+
+export interface ReviewSummaryProps extends ReviewSummaryModule {
+  onEdit?: (target: string) => void;
+}
+
+export function ReviewSummary({
+  title,
+  description,
+  helpUrl,
+  empty = 'Nothing to review yet',
+  sections,
+  disabled = false,
+  locked = false,
+  onEdit
+}: ReviewSummaryProps) {
+  return (
+    <div className="space-y-4">
+      <ModuleHeader title={title} description={description} helpUrl={helpUrl} />
+
+      {sections.length === 0 ? (
+        <p className={TYPOGRAPHY.captionText}>{empty}</p>
+      ) : (
+        <div className="divide-y divide-border">
+          {sections.map(section => (
+            <section key={section.id} className="py-3 first:pt-0 last:pb-0 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <h4 className={TYPOGRAPHY.sectionTitle}>{section.title}</h4>
+                {section.editTarget && onEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs gap-1 text-muted-foreground"
+                    onClick={() => onEdit(section.editTarget!)}
+                    disabled={disabled || locked}
+                  >
+                    <Pencil className="w-3 h-3" />
+                    {section.editLabel || 'Edit'}
+                  </Button>
+                )}
+              </div>
+              <dl className="grid grid-cols-1 sm:grid-cols-[12rem_1fr] gap-x-4 gap-y-1">
+                {section.items.map(item => (
+                  <React.Fragment key={item.id}>
+                    <dt className={TYPOGRAPHY.captionText}>{item.label}</dt>
+                    <dd className="text-sm break-words">{item.value || '—'}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
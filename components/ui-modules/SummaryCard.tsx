@@ -21,7 +21,7 @@ type Action = {
   disabled?: boolean; 
 };
 
-type SummaryCardModule = {
+export type SummaryCardModule = {
   id?: string;
   title?: string;
   description?: string;
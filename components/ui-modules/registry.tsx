@@ -0,0 +1,299 @@
+// Module registry: resolves serializable { kind, props } descriptors to UI modules
+import React from 'react';
+import { ChoiceList, type ChoiceListModule } from './ChoiceList';
+import { Form, type FormModule } from './Form';
+import { Steps, type StepsModule } from './Steps';
+import { Alert, type AlertModule } from './Alert';
+import { FileDrop, type FileDropModule } from './FileDrop';
+import { ProcessState, type ProcessStateModule } from './ProcessState';
+import { SummaryCard, type SummaryCardModule } from './SummaryCard';
+import { HelpSources, type HelpSourcesModule } from './HelpSources';
+import { ActionButtons, type ActionButtonsModule } from './ActionButtons';
+import { ChangeList, type ChangeListModule } from './ChangeList';
+import { ReviewSummary, type ReviewSummaryModule } from './ReviewSummary';
+import { EntitySelect, type EntitySelectModule } from './EntitySelect';
+import { CodeViewer, type CodeViewerModule } from './CodeViewer';
+import { redact, SECRET_KEY } from '../../services/apiCallLog';
+
+type DescriptorProps<T extends { kind: string }> = Omit<T, 'kind' | 'locked' | 'disabled'>;
+
+/** Props accepted by each registered module kind (callbacks excluded) */
+export interface ModulePropsByKind {
+  'choices': DescriptorProps<ChoiceListModule>;
+  'form': DescriptorProps<FormModule>;
+  'steps': DescriptorProps<StepsModule>;
+  'alert': DescriptorProps<AlertModule>;
+  'filedrop': DescriptorProps<FileDropModule>;
+  'process-state': DescriptorProps<ProcessStateModule>;
+  'summary': DescriptorProps<SummaryCardModule>;
+  'help-sources': DescriptorProps<HelpSourcesModule>;
+  'actions': DescriptorProps<ActionButtonsModule>;
+  'changes': DescriptorProps<ChangeListModule>;
+  'review': DescriptorProps<ReviewSummaryModule>;
+  'entity-select': DescriptorProps<EntitySelectModule>;
+  'code-viewer': DescriptorProps<CodeViewerModule>;
+}
+
+export type ModuleKind = keyof ModulePropsByKind;
+
+/**
+ * Plain-data description of a module. Safe to persist, export or receive
+ * from a server; resolved to a component only at render time.
+ */
+export type ModuleDescriptor = {
+  [K in ModuleKind]: { kind: K; props: ModulePropsByKind[K] }
+}[ModuleKind];
+
+/** Events a rendered module can raise */
+export type ModuleEvent =
+  | { type: 'choice'; value: string | string[] }
+  | { type: 'submit'; data: Record<string, any> }
+  | { type: 'upload'; files: File[] }
+  | { type: 'action'; id: string }
+  | { type: 'edit'; target: string }
+  /** Remote entity selects: a new search, or the page after cursor */
+  | { type: 'search'; query: string; pageSize: number }
+  | { type: 'load-more'; query: string; cursor: string; pageSize: number };
+
+/** Render-time state supplied by the host, never stored in the descriptor */
+export interface ModuleRenderContext {
+  locked?: boolean;
+  onEvent?: (event: ModuleEvent) => void;
+  /** Live values for forms with derive rules */
+  derivedValues?: Record<string, any>;
+  onRequestDerive?: (targets: any[], currentValues: Record<string, any>) => void;
+}
+
+interface ModuleRegistration<K extends ModuleKind> {
+  render: (props: ModulePropsByKind[K], context: ModuleRenderContext) => React.ReactNode;
+  /** Draw the standard bordered card around the module */
+  wrap: boolean;
+  /** Whether completed steps lock the module */
+  lockable: boolean;
+  /** Plain-text lines describing the module's content, for transcripts */
+  summarize: (props: ModulePropsByKind[K]) => string[];
+}
+
+const emit = (context: ModuleRenderContext, event: ModuleEvent) => context.onEvent?.(event);
+
+const REDACTED = '[redacted]';
+
+type FormProps = ModulePropsByKind['form'];
+type FormField = NonNullable<FormProps['fields']>[number];
+
+function formatFieldValue(field: FormField): string | null {
+  if (field.type === 'file' || field.value === undefined || field.value === '') return null;
+  if (field.type === 'password' || SECRET_KEY.test(field.id) || SECRET_KEY.test(field.label)) return REDACTED;
+  if (field.type === 'checkbox') return field.value ? 'Yes' : 'No';
+  if (field.type === 'select' || field.type === 'radio') {
+    return field.options.find(option => option.value === field.value)?.label ?? String(field.value);
+  }
+  return String(field.value);
+}
+
+function summarizeForm({ fields, sections }: FormProps): string[] {
+  const allFields = sections?.flatMap(section => section.fields) || fields || [];
+  return allFields.flatMap(field => {
+    const value = formatFieldValue(field);
+    return value === null ? [] : [`${field.label}: ${value}`];
+  });
+}
+
+export const MODULE_REGISTRY: { [K in ModuleKind]: ModuleRegistration<K> } = {
+  'choices': {
+    wrap: true,
+    lockable: true,
+    summarize: ({ options, value }) => {
+      const selected = ([] as string[]).concat(value ?? []);
+      if (selected.length === 0) return [`Options: ${options.map(option => option.label).join(', ')}`];
+      return [`Selected: ${selected.map(id => options.find(option => option.id === id)?.label ?? id).join(', ')}`];
+    },
+    render: (props, context) => (
+      <ChoiceList
+        {...props}
+        kind="choices"
+        onChange={(value) => emit(context, { type: 'choice', value })}
+        onAction={(id) => emit(context, { type: 'action', id })}
+        disabled={context.locked}
+        locked={context.locked}
+      />
+    )
+  },
+  'form': {
+    wrap: true,
+    lockable: true,
+    summarize: summarizeForm,
+    render: (props, context) => (
+      <Form
+        {...props}
+        kind="form"
+        onSubmit={(data) => emit(context, { type: 'submit', data })}
+        onAction={(id) => emit(context, { type: 'action', id })}
+        onRequestDerive={props.derive ? context.onRequestDerive : undefined}
+        derivedValues={props.derive ? context.derivedValues : undefined}
+        disabled={context.locked}
+        locked={context.locked}
+      />
+    )
+  },
+  'steps': {
+    wrap: true,
+    lockable: true,
+    summarize: ({ steps, current }) => steps.map((step, index) =>
+      `${index + 1}. ${step.title}${step.id === current ? ' (current)' : ''}`
+    ),
+    render: (props, context) => (
+      <Steps {...props} kind="steps" locked={context.locked} />
+    )
+  },
+  'alert': {
+    wrap: false,
+    lockable: true,
+    summarize: ({ type, message }) => [`${type.charAt(0).toUpperCase()}${type.slice(1)}: ${message}`],
+    render: (props, context) => (
+      <Alert {...props} kind="alert" onAction={(id) => emit(context, { type: 'action', id })} />
+    )
+  },
+  'filedrop': {
+    wrap: true,
+    lockable: true,
+    summarize: ({ accept }) => [`File upload${accept ? ` (${accept})` : ''}`],
+    render: (props, context) => (
+      <FileDrop
+        {...props}
+        kind="filedrop"
+        onUploadStart={(files) => emit(context, { type: 'upload', files })}
+        onAction={(id) => emit(context, { type: 'action', id })}
+      />
+    )
+  },
+  'process-state': {
+    wrap: false,
+    lockable: true,
+    summarize: ({ state, detail, steps = [] }) => [
+      detail ? `${state}: ${detail}` : state,
+      ...steps.map(step => `${step.label}: ${step.status}${step.detail ? ` (${step.detail})` : ''}`)
+    ],
+    render: (props, context) => (
+      <ProcessState
+        {...props}
+        kind="process-state"
+        onAction={(id) => emit(context, { type: 'action', id })}
+        locked={context.locked}
+      />
+    )
+  },
+  'summary': {
+    wrap: true,
+    lockable: false,
+    summarize: ({ items }) => items.map(item =>
+      [item.title, item.subtitle, item.message].filter(Boolean).join(' - ') + ` (${item.status})`
+    ),
+    render: (props, context) => (
+      <SummaryCard
+        {...props}
+        kind="summary"
+        onAction={(id) => emit(context, { type: 'action', id })}
+      />
+    )
+  },
+  'help-sources': {
+    wrap: false,
+    lockable: false,
+    summarize: ({ results }) => results.map(result => `${result.title}: ${result.url}`),
+    render: (props) => <HelpSources {...props} kind="help-sources" />
+  },
+  'actions': {
+    wrap: false,
+    lockable: true,
+    summarize: ({ buttons }) => [`Actions: ${buttons.map(button => button.label).join(', ')}`],
+    render: (props, context) => (
+      <ActionButtons
+        {...props}
+        kind="actions"
+        onAction={(id) => emit(context, { type: 'action', id })}
+        locked={context.locked}
+      />
+    )
+  },
+  'changes': {
+    wrap: true,
+    lockable: false,
+    summarize: ({ changes }) => changes.map(change =>
+      `${change.label}: ${change.before ?? '(none)'} -> ${change.after ?? '(removed)'}`
+    ),
+    render: (props) => <ChangeList {...props} kind="changes" />
+  },
+  'review': {
+    wrap: true,
+    lockable: true,
+    summarize: ({ sections }) => sections.flatMap(section =>
+      section.items.map(item => `${section.title} / ${item.label}: ${SECRET_KEY.test(item.label) && item.value ? REDACTED : item.value || '-'}`)
+    ),
+    render: (props, context) => (
+      <ReviewSummary
+        {...props}
+        kind="review"
+        onEdit={(target) => emit(context, { type: 'edit', target })}
+        locked={context.locked}
+      />
+    )
+  },
+  'entity-select': {
+    wrap: true,
+    lockable: false,
+    summarize: ({ title, options = [], value }) => {
+      const selected = ([] as string[]).concat(value ?? []);
+      const labels = selected.map(id => options.find(option => option.id === id)?.label ?? id);
+      return labels.length > 0 ? [`Selected: ${labels.join(', ')}`] : [title || 'Search'];
+    },
+    render: (props, context) => (
+      <EntitySelect
+        {...props}
+        kind="entity-select"
+        onChange={(value) => emit(context, { type: 'choice', value })}
+        onAction={(id) => emit(context, { type: 'action', id })}
+        onRequestSearch={(query, pageSize) => emit(context, { type: 'search', query, pageSize })}
+        onRequestLoadMore={(query, cursor, pageSize) => emit(context, { type: 'load-more', query, cursor, pageSize })}
+      />
+    )
+  },
+  'code-viewer': {
+    wrap: true,
+    lockable: false,
+    summarize: ({ title, caption, code }) => [title || caption || 'Code', ...code.split('\n')],
+    render: (props) => <CodeViewer {...props} kind="code-viewer" />
+  }
+};
+
+function getRegistration(kind: ModuleKind): ModuleRegistration<ModuleKind> {
+  return MODULE_REGISTRY[kind] as unknown as ModuleRegistration<ModuleKind>;
+}
+
+/**
+ * Render a descriptor with the registered module
+ */
+export function renderModule(descriptor: ModuleDescriptor, context: ModuleRenderContext = {}): React.ReactNode {
+  const registration = getRegistration(descriptor.kind);
+  if (!registration) {
+    console.warn(`No module registered for kind "${descriptor.kind}"`);
+    return null;
+  }
+  return registration.render(descriptor.props, context);
+}
+
+export function moduleNeedsWrapper(descriptor: ModuleDescriptor): boolean {
+  return getRegistration(descriptor.kind)?.wrap ?? true;
+}
+
+export function isModuleLockable(descriptor: ModuleDescriptor): boolean {
+  return getRegistration(descriptor.kind)?.lockable ?? true;
+}
+
+/**
+ * Text lines describing a descriptor's content. Credentials are redacted:
+ * password fields, and fields or properties named like one.
+ */
+export function summarizeModule(descriptor: ModuleDescriptor): string[] {
+  return getRegistration(descriptor.kind)?.summarize(redact(descriptor.props) as ModuleDescriptor['props']) ?? [];
+}
@@ -0,0 +1,152 @@
+// LeadExecAPI requests as sent and answered, for the request inspector
+import { DEFAULT_BASE_URL } from './apiSettings';
+import { buildPath, type HttpMethod, type LeadExecRequest } from './leadexecTransport';
+
+const STORAGE_KEY = 'leadexec-copilot:api-calls';
+const MAX_CALLS = 50;
+
+const REDACTED = '[redacted]';
+/** Property names and labels whose values are credentials */
+export const SECRET_KEY = /pass(word)?|secret|token|api.?key|authorization/i;
+
+/** One attempt at a request; a retried request has a record per attempt */
+export interface ApiCallRecord {
+  id: string;
+  /** LeadExecAPI method that made the request, e.g. createClient */
+  operation: string;
+  attempt: number;
+  method: HttpMethod;
+  path: string;
+  query?: LeadExecRequest['query'];
+  /** API root the request went to; null for the mock server */
+  baseURL: string | null;
+  idempotencyKey?: string;
+  /** Request and response bodies with credentials redacted */
+  requestBody?: unknown;
+  responseBody?: unknown;
+  /** HTTP status; null when there was no answer */
+  status: number | null;
+  /** Answered with the response to an earlier request with the same idempotency key */
+  replayed?: boolean;
+  ok: boolean;
+  error?: string;
+  durationMs: number;
+  startedAt: string;
+  /** The call this one replayed against the mock server */
+  replayOf?: string;
+}
+
+/** value with the values of credential properties replaced, at any depth */
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY.test(key) && item !== '' && item !== null && item !== undefined ? REDACTED : redact(item)
+    ]));
+  }
+  return value;
+}
+
+const shellQuote = (text: string) => `'${text.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * The call as a curl command. The API key is read from $LEADEXEC_API_KEY
+ * and redacted values stay redacted; mock server calls use the default
+ * API root.
+ */
+export function toCurl(call: ApiCallRecord): string {
+  const url = `${(call.baseURL || DEFAULT_BASE_URL).replace(/\/+$/, '')}${buildPath(call)}`;
+  return [
+    `curl -X ${call.method} ${shellQuote(url)}`,
+    `-H 'Authorization: Bearer '"$LEADEXEC_API_KEY"`,
+    `-H 'Content-Type: application/json'`,
+    ...(call.idempotencyKey ? [`-H ${shellQuote(`Idempotency-Key: ${call.idempotencyKey}`)}`] : []),
+    ...(call.requestBody !== undefined ? [`--data ${shellQuote(JSON.stringify(call.requestBody))}`] : [])
+  ].join(' \\\n  ');
+}
+
+const createCallId = () => `call-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * The most recent calls, newest first, kept in sessionStorage so they last
+ * until the tab is closed. Stored bodies are redacted; the requests as sent
+ * are kept in memory only, for replaying them. Storage failures are logged
+ * and otherwise ignored.
+ */
+export class ApiCallLog {
+  // Unredacted requests by call id
+  private requests = new Map<string, LeadExecRequest>();
+  // Calls for when sessionStorage is unavailable
+  private calls: ApiCallRecord[] = [];
+  private listeners = new Set<(calls: ApiCallRecord[]) => void>();
+
+  constructor(private storageKey = STORAGE_KEY, private capacity = MAX_CALLS) {}
+
+  private get storage(): Storage | null {
+    try {
+      return typeof window !== 'undefined' ? window.sessionStorage : null;
+    } catch {
+      return null;
+    }
+  }
+
+  list(): ApiCallRecord[] {
+    const storage = this.storage;
+    if (!storage) return this.calls;
+    try {
+      const raw = storage.getItem(this.storageKey);
+      const calls = raw ? JSON.parse(raw) : [];
+      return Array.isArray(calls) ? calls : [];
+    } catch (error) {
+      console.warn('Failed to load API calls:', error);
+      return [];
+    }
+  }
+
+  record(call: Omit<ApiCallRecord, 'id' | 'requestBody' | 'responseBody'>, request: LeadExecRequest, response?: unknown): ApiCallRecord {
+    const record: ApiCallRecord = {
+      ...call,
+      id: createCallId(),
+      ...(request.body !== undefined ? { requestBody: redact(request.body) } : {}),
+      ...(response !== undefined ? { responseBody: redact(response) } : {})
+    };
+    const calls = [record, ...this.list()].slice(0, this.capacity);
+    this.requests.set(record.id, { method: request.method, path: request.path, query: request.query, body: request.body });
+    this.requests.forEach((_, id) => {
+      if (!calls.some(item => item.id === id)) this.requests.delete(id);
+    });
+    this.write(calls);
+    return record;
+  }
+
+  /** The request as sent, or as recorded when it is no longer in memory */
+  request(call: ApiCallRecord): LeadExecRequest {
+    return this.requests.get(call.id) ?? { method: call.method, path: call.path, query: call.query, body: call.requestBody };
+  }
+
+  clear(): void {
+    this.requests.clear();
+    this.write([]);
+  }
+
+  /** Called with the calls after every change; returns an unsubscribe function */
+  subscribe(listener: (calls: ApiCallRecord[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private write(calls: ApiCallRecord[]): void {
+    this.calls = calls;
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(calls));
+    } catch (error) {
+      console.warn('Failed to save API calls:', error);
+    }
+    this.listeners.forEach(listener => listener(calls));
+  }
+}
+
+export const apiCallLog = new ApiCallLog();
@@ -0,0 +1,169 @@
+import type { TransportMode } from './leadexecTransport';
+
+const STORAGE_KEY = 'leadexec-copilot:api';
+
+// ?api=live or ?api=mock switches the transport and is remembered
+const MODE_PARAM = 'api';
+
+export const DEFAULT_BASE_URL = 'https://api.leadexec.com';
+
+/** What a transport needs to send requests */
+export interface ApiSettings {
+  mode: TransportMode;
+  baseURL: string;
+  bearerToken: string;
+}
+
+export type ApiEnvironment = 'mock' | 'sandbox' | 'production';
+
+/** A named place requests can go, e.g. the sandbox or a reseller's production account */
+export interface ApiConnection {
+  id: string;
+  name: string;
+  environment: ApiEnvironment;
+  baseURL: string;
+  bearerToken: string;
+}
+
+export interface ApiConnections {
+  connections: ApiConnection[];
+  activeId: string;
+}
+
+/** Always available and cannot be removed */
+export const MOCK_CONNECTION: ApiConnection = {
+  id: 'mock',
+  name: 'Mock server',
+  environment: 'mock',
+  baseURL: '',
+  bearerToken: ''
+};
+
+export const ENVIRONMENT_LABELS: Record<ApiEnvironment, string> = {
+  mock: 'Mock',
+  sandbox: 'Sandbox',
+  production: 'Production'
+};
+
+function isMode(value: unknown): value is TransportMode {
+  return value === 'live' || value === 'mock';
+}
+
+function isEnvironment(value: unknown): value is ApiEnvironment {
+  return value === 'mock' || value === 'sandbox' || value === 'production';
+}
+
+function isConnection(value: unknown): value is ApiConnection {
+  const connection = value as Partial<ApiConnection> | null;
+  return !!connection && typeof connection.id === 'string' && typeof connection.name === 'string' &&
+    isEnvironment(connection.environment) && typeof connection.baseURL === 'string' && typeof connection.bearerToken === 'string';
+}
+
+export function toApiSettings({ environment, baseURL, bearerToken }: ApiConnection): ApiSettings {
+  return { mode: environment === 'mock' ? 'mock' : 'live', baseURL, bearerToken };
+}
+
+export function activeConnection({ connections, activeId }: ApiConnections): ApiConnection {
+  return connections.find(connection => connection.id === activeId) ?? MOCK_CONNECTION;
+}
+
+export const createConnectionId = () => `conn-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * The saved API connections and which one LeadExecAPI uses. A connection
+ * from the VITE_LEADEXEC_API_* environment variables is there by default,
+ * saved connections replace it, and an ?api= URL parameter switches
+ * between the mock server and the first live connection. Settings saved
+ * before there were several connections become a single live connection.
+ * Without any configuration the mock server is used. Storage failures are
+ * logged and otherwise ignored.
+ */
+export class ApiSettingsStore {
+  constructor(private storageKey = STORAGE_KEY) {}
+
+  private get storage(): Storage | null {
+    try {
+      return typeof window !== 'undefined' ? window.localStorage : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private get defaults(): ApiConnections {
+    const env = import.meta.env ?? {};
+    const configured: ApiConnection = {
+      id: 'leadexec',
+      name: 'LeadExec',
+      environment: env.VITE_LEADEXEC_API_ENV === 'sandbox' ? 'sandbox' : 'production',
+      baseURL: env.VITE_LEADEXEC_API_URL || DEFAULT_BASE_URL,
+      bearerToken: env.VITE_LEADEXEC_API_TOKEN || ''
+    };
+    return {
+      connections: [MOCK_CONNECTION, configured],
+      activeId: env.VITE_LEADEXEC_API_MODE === 'live' ? configured.id : MOCK_CONNECTION.id
+    };
+  }
+
+  load(): ApiConnections {
+    let state = this.defaults;
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      if (raw) state = fromSaved(JSON.parse(raw), state);
+    } catch (error) {
+      console.warn('Failed to load API settings:', error);
+    }
+
+    const requested = typeof window !== 'undefined'
+      ? new URLSearchParams(window.location?.search).get(MODE_PARAM)
+      : null;
+    if (isMode(requested) && toApiSettings(activeConnection(state)).mode !== requested) {
+      const target = requested === 'mock'
+        ? MOCK_CONNECTION
+        : state.connections.find(connection => connection.environment !== 'mock');
+      if (target) {
+        state = { ...state, activeId: target.id };
+        this.save(state);
+      }
+    }
+    return state;
+  }
+
+  save(state: ApiConnections): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(state));
+    } catch (error) {
+      console.warn('Failed to save API settings:', error);
+    }
+  }
+
+  /** The connection requests go to */
+  active(): ApiConnection {
+    return activeConnection(this.load());
+  }
+}
+
+// Saved connections, or the single settings saved by earlier versions
+function fromSaved(saved: unknown, defaults: ApiConnections): ApiConnections {
+  const value = (saved ?? {}) as Partial<ApiConnections> & Partial<ApiSettings>;
+  if (Array.isArray(value.connections)) {
+    const connections = value.connections.filter(isConnection).filter(connection => connection.id !== MOCK_CONNECTION.id);
+    const all = [MOCK_CONNECTION, ...connections];
+    return {
+      connections: all,
+      activeId: all.some(connection => connection.id === value.activeId) ? value.activeId! : MOCK_CONNECTION.id
+    };
+  }
+
+  const configured = defaults.connections.find(connection => connection.environment !== 'mock')!;
+  const migrated = {
+    ...configured,
+    baseURL: value.baseURL || configured.baseURL,
+    bearerToken: value.bearerToken || configured.bearerToken
+  };
+  return {
+    connections: [MOCK_CONNECTION, migrated],
+    activeId: value.mode === 'live' ? migrated.id : value.mode === 'mock' ? MOCK_CONNECTION.id : defaults.activeId
+  };
+}
+
+export const apiSettingsStore = new ApiSettingsStore();
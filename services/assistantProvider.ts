@@ -0,0 +1,71 @@
+// Contract between the chat UI and whatever produces the assistant's replies
+import type { Message, SimplifiedSetupData, StoredMessage } from '../components/chat-types';
+import type { ModuleDescriptor } from '../components/ui-modules/registry';
+import type { FlowValues } from '../components/flow-types';
+
+export interface AssistantFlowState {
+  /** Active flow or tool id */
+  flowId: string | null;
+  /** Current step of a guided flow */
+  stepId: string | null;
+  /** Answers of the conversational client setup; empty outside it */
+  setup: SimplifiedSetupData;
+}
+
+export interface AssistantRequest {
+  /** What the user typed or the value of the button they clicked; empty to start a flow */
+  input: string;
+  /** Conversation so far, oldest first */
+  history: Message[];
+  flow: AssistantFlowState;
+  /** Aborted when the user stops the response or the conversation resets */
+  signal?: AbortSignal;
+}
+
+export interface AssistantReply {
+  content: string;
+  /**
+   * Rest of the text from a backend that produces it incrementally; appended
+   * to content as it arrives. Without it, content is revealed in chunks.
+   */
+  stream?: AsyncIterable<string>;
+  /** Attached once the text completes, like commands and suggestedActions */
+  component?: ModuleDescriptor;
+  /** Module action id -> command, as on Message */
+  commands?: Message['commands'];
+  /** Serializable actions only; buttons answer through their command */
+  suggestedActions?: StoredMessage['suggestedActions'];
+  /** When set, shown as a temporary processing message with this detail */
+  processing?: string;
+  /** Milliseconds to wait after the previous reply */
+  delay?: number;
+}
+
+/** Hands the conversation to an existing chat feature instead of replying */
+export type AssistantHandoff =
+  /**
+   * input is handed to the tool's first turn, e.g. details to prefill;
+   * prefill answers a guided flow's questions up front
+   */
+  | { type: 'select-tool'; toolId: string; input?: string; prefill?: FlowValues }
+  | { type: 'show-help'; topic?: string };
+
+export interface AssistantResponse {
+  replies: AssistantReply[];
+  /** Next conversational setup state; unchanged when omitted */
+  setup?: SimplifiedSetupData;
+  /** Runs after the replies */
+  handoff?: AssistantHandoff;
+  /** The conversation reached the end of its flow */
+  done?: boolean;
+}
+
+/**
+ * Produces the assistant's side of the conversation. Guided flows are driven
+ * by their flow definitions; a provider answers everything else: free-text
+ * requests and the conversational client setup.
+ */
+export interface AssistantProvider {
+  readonly id: string;
+  respond(request: AssistantRequest): Promise<AssistantResponse>;
+}
@@ -0,0 +1,62 @@
+// Requests and the details ClientDetailsExtractor should pull out of them,
+// checked with checkClientDetailsExamples
+import { clientDetailsExtractor, type ExtractedClientDetails, type ExtractOptions } from './clientDetailsExtractor';
+
+export interface ClientDetailsExample {
+  text: string;
+  options?: ExtractOptions;
+  expect: ExtractedClientDetails;
+  /** Name of the client being copied, when the request names one */
+  template?: string;
+}
+
+export interface ClientDetailsExampleOutcome {
+  text: string;
+  passed: boolean;
+  /** One line per detail that differed from the expectation */
+  failures: string[];
+}
+
+export const CLIENT_DETAILS_EXAMPLES: ClientDetailsExample[] = [
+  {
+    text: 'create client Acme Roofing, billing@acmeroof.com, webhook delivery, 50 leads a day at $30',
+    expect: { companyName: 'Acme Roofing', email: 'billing@acmeroof.com', deliveryMethod: 'webhook', dailyLeadLimit: 50, leadPrice: 30 }
+  },
+  {
+    text: 'add a new customer named Summit Solar with email ops@summitsolar.com, phone (555) 123-4567',
+    expect: { companyName: 'Summit Solar', email: 'ops@summitsolar.com', phone: '(555) 123-4567' }
+  },
+  {
+    text: 'create a client like TechCorp',
+    expect: {},
+    template: 'TechCorp'
+  },
+  {
+    text: 'create a client like TechCorp called Northwind Leads, ops@northwind.com',
+    expect: { companyName: 'Northwind Leads', email: 'ops@northwind.com' },
+    template: 'TechCorp'
+  },
+  {
+    text: 'Brightline Media, leads@brightline.com',
+    options: { leadingCompany: true },
+    expect: { companyName: 'Brightline Media', email: 'leads@brightline.com' }
+  }
+];
+
+export function checkClientDetailsExamples(
+  examples: ClientDetailsExample[] = CLIENT_DETAILS_EXAMPLES
+): ClientDetailsExampleOutcome[] {
+  return examples.map(({ text, options, expect, template }) => {
+    const actual: Record<string, unknown> = { ...clientDetailsExtractor.extract(text, options) };
+    const expected: Record<string, unknown> = { ...expect };
+    const failures = [...new Set([...Object.keys(expected), ...Object.keys(actual)])]
+      .filter(key => actual[key] !== expected[key])
+      .map(key => `${key}: expected ${JSON.stringify(expected[key])}, got ${JSON.stringify(actual[key])}`);
+
+    const reference = clientDetailsExtractor.extractTemplateReference(text);
+    if (reference !== template) {
+      failures.push(`template: expected ${JSON.stringify(template)}, got ${JSON.stringify(reference)}`);
+    }
+    return { text, passed: failures.length === 0, failures };
+  });
+}
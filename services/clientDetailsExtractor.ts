@@ -0,0 +1,142 @@
+// Rule-based extraction of client details from a free-text request
+
+export interface ExtractedClientDetails {
+  companyName?: string;
+  email?: string;
+  phone?: string;
+  /** Simplified setup delivery id: email, webhook, ftp or skip */
+  deliveryMethod?: string;
+  dailyLeadLimit?: number;
+  leadPrice?: number;
+}
+
+export interface ExtractOptions {
+  /**
+   * Treat the first comma-separated part as the company name even without a
+   * "create client" prefix, e.g. when the company name was just asked for
+   */
+  leadingCompany?: boolean;
+}
+
+const EMAIL_PATTERN = /[^\s@,;:<>()]+@[^\s@,;:<>()]+\.[a-z]{2,}/i;
+
+// US-style numbers: (555) 123-4567, 555.123.4567, +1 555 123 4567
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/;
+
+const DELIVERY_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(?:http\s+)?webhooks?\b|\bhttp\s+(?:post|delivery)\b/i, 'webhook'],
+  [/\bs?ftp\b/i, 'ftp'],
+  [/\bemail\s+delivery\b|\b(?:deliver(?:ed|y)?|send|sent)\s+(?:leads\s+)?(?:by|via|over|through)\s+e-?mail\b|\b(?:by|via)\s+e-?mail\b/i, 'email'],
+  [/\b(?:no|skip(?:\s+the)?)\s+delivery\b/i, 'skip']
+];
+
+const LIMIT_PATTERNS = [
+  /(\d[\d,]*)\s*(?:leads?\s*)?(?:\/|per|a|each)\s*day\b/i,
+  /(\d[\d,]*)\s*(?:leads?\s+)?daily\b/i,
+  /\b(?:daily\s+)?(?:lead\s+)?(?:limit|cap)\s*(?:of|at|is|:|=)?\s*(\d[\d,]*)/i
+];
+
+const PRICE_PATTERNS = [
+  /\$\s*(\d+(?:\.\d{1,2})?)/,
+  /(\d+(?:\.\d{1,2})?)\s*(?:dollars?|usd)\b/i,
+  /\b(?:price|cost|cpl)\s*(?:per\s+lead\s*)?(?:of|at|is|:|=)?\s*(\d+(?:\.\d{1,2})?)/i,
+  /(\d+(?:\.\d{1,2})?)\s*(?:\/|per|a|each)\s*lead\b/i
+];
+
+// "create a new client called", "add customer", "onboard client named" ...
+const COMMAND_PREFIX = /^\s*(?:please\s+|can you\s+|could you\s+)?(?:create|add|set\s*up|onboard|make|register)\s+(?:a\s+|an\s+)?(?:new\s+)?(?:client|customer|advertiser|buyer)\b(?:\s+(?:called|named|for))?\s*[:-]?\s*/i;
+
+const COMPANY_CUE = /\b(?:company(?:\s+name)?|client\s+name)\s*(?:is|:|=)\s*([^,;\n]+)/i;
+
+// "like TechCorp", "same as the Summit client", "clone of Brightline" ...
+const TEMPLATE_CUE = /\b(?:like|similar\s+to|same\s+as|based\s+on|modell?ed\s+(?:on|after)|(?:a\s+)?copy\s+of|clone\s+of|(?:cloned?|copied)\s+from|clone|duplicate)\s+(?:the\s+)?(?:existing\s+)?(?:client\s+|customer\s+)?([^,;\n]+)/i;
+
+// "... like TechCorp called Northwind Leads" names the new client after the one copied
+const NAMED_AFTER_TEMPLATE = /\s+(?:called|named)\s+(.+)$/i;
+
+// Where a company name written at the start of a request ends
+const NAME_END = /[,;\n]|\s+[-–]\s+|\s+(?:with|using|at|email|phone)\s+/i;
+
+// Parts that describe settings rather than name the company
+const SETTING_WORDS = /\b(?:webhook|ftp|sftp|delivery|deliver|leads?|limit|price|per|daily|phone|email)\b/i;
+
+function firstMatch(text: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Pulls the details the conversational client setup asks for out of a
+ * single message, e.g. "create client Acme Roofing, billing@acmeroof.com,
+ * webhook delivery, 50 leads a day at $30". Only what is clearly stated is
+ * returned; nothing is guessed.
+ */
+export class ClientDetailsExtractor {
+  extract(text: string, { leadingCompany = false }: ExtractOptions = {}): ExtractedClientDetails {
+    const details: ExtractedClientDetails = {};
+
+    const email = text.match(EMAIL_PATTERN)?.[0];
+    if (email) details.email = email.replace(/[.]+$/, '');
+
+    // Leave the email out so its digits are not read as a phone number
+    const withoutEmail = email ? text.replace(email, ' ') : text;
+    const phone = withoutEmail.match(PHONE_PATTERN)?.[0];
+    if (phone) details.phone = phone.trim();
+
+    const rest = phone ? withoutEmail.replace(phone, ' ') : withoutEmail;
+
+    const delivery = DELIVERY_PATTERNS.find(([pattern]) => pattern.test(rest));
+    if (delivery) details.deliveryMethod = delivery[1];
+
+    const limit = firstMatch(rest, LIMIT_PATTERNS);
+    if (limit) details.dailyLeadLimit = parseInt(limit.replace(/,/g, ''), 10);
+
+    const price = firstMatch(rest, PRICE_PATTERNS);
+    if (price) details.leadPrice = parseFloat(price);
+
+    const companyName = this.extractCompany(text, email, leadingCompany);
+    if (companyName) details.companyName = companyName;
+
+    return details;
+  }
+
+  /**
+   * Name of an existing client the request wants copied, e.g. "TechCorp"
+   * from "create a client like TechCorp"
+   */
+  extractTemplateReference(text: string): string | undefined {
+    const cue = text.match(TEMPLATE_CUE);
+    if (!cue) return undefined;
+    const [name] = cue[1].split(/\s+(?:as|but|with|using|called|named|for|and)\s+|\s+[-–]\s+/i);
+    return this.cleanCompany(name.replace(/(?:'s)?\s+(?:client|customer|setup|config(?:uration)?|account)$/i, ''));
+  }
+
+  private extractCompany(text: string, email: string | undefined, leadingCompany: boolean): string | undefined {
+    const cue = text.match(COMPANY_CUE);
+    if (cue) return this.cleanCompany(cue[1]);
+
+    // The client being copied is not the new client's name
+    const template = text.match(TEMPLATE_CUE);
+    const named = template?.[1].match(NAMED_AFTER_TEMPLATE);
+    if (named) return this.cleanCompany(named[1].split(NAME_END)[0]);
+    const request = template?.index !== undefined ? text.slice(0, template.index) : text;
+
+    const prefix = request.match(COMMAND_PREFIX);
+    if (!prefix && !leadingCompany) return undefined;
+
+    const remainder = prefix ? request.slice(prefix[0].length) : request;
+    const [first] = remainder.split(NAME_END);
+    if (!first || (email && first.includes(email)) || SETTING_WORDS.test(first)) return undefined;
+    return this.cleanCompany(first);
+  }
+
+  private cleanCompany(name: string): string | undefined {
+    const cleaned = name.trim().replace(/^["']|["'.]$/g, '').trim();
+    return cleaned.length > 1 ? cleaned : undefined;
+  }
+}
+
+export const clientDetailsExtractor = new ClientDetailsExtractor();
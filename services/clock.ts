@@ -0,0 +1,138 @@
+/**
+ * Timer source for chat flows. The chat uses the system clock; scripted
+ * runs use a VirtualClock so timed steps complete instantly and in a
+ * deterministic order.
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): number;
+  clearTimeout(id: number): void;
+  setInterval(fn: () => void, ms: number): number;
+  clearInterval(id: number): void;
+}
+
+export class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  setTimeout(fn: () => void, ms: number): number {
+    return window.setTimeout(fn, ms);
+  }
+
+  clearTimeout(id: number): void {
+    window.clearTimeout(id);
+  }
+
+  setInterval(fn: () => void, ms: number): number {
+    return window.setInterval(fn, ms);
+  }
+
+  clearInterval(id: number): void {
+    window.clearInterval(id);
+  }
+}
+
+interface VirtualTimer {
+  id: number;
+  fn: () => void;
+  at: number;
+  /** Repeat interval for setInterval timers */
+  every?: number;
+}
+
+/**
+ * Clock whose time only moves when advanced. Due timers fire in time order
+ * (then in the order they were set), and pending promise callbacks are
+ * flushed between timers so async steps settle before the next one fires.
+ */
+export class VirtualClock implements Clock {
+  private time: number;
+  private nextId = 1;
+  private timers: VirtualTimer[] = [];
+
+  constructor(start = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(fn: () => void, ms: number): number {
+    return this.add({ id: this.nextId++, fn, at: this.time + Math.max(0, ms) });
+  }
+
+  clearTimeout(id: number): void {
+    this.timers = this.timers.filter(timer => timer.id !== id);
+  }
+
+  setInterval(fn: () => void, ms: number): number {
+    const every = Math.max(1, ms);
+    return this.add({ id: this.nextId++, fn, at: this.time + every, every });
+  }
+
+  clearInterval(id: number): void {
+    this.clearTimeout(id);
+  }
+
+  /** Number of timers waiting to fire */
+  get pending(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Move time forward by ms, firing every timer that falls due on the way
+   */
+  async advance(ms: number): Promise<void> {
+    await this.runUntil(this.time + ms);
+  }
+
+  /**
+   * Fire timers until none are left. Intervals would never run out, so this
+   * gives up after maxTimers and throws.
+   */
+  async runAll(maxTimers = 1000): Promise<void> {
+    await flushPromises();
+    for (let fired = 0; this.timers.length > 0; fired++) {
+      if (fired >= maxTimers) {
+        throw new Error(`VirtualClock: timers still pending after ${maxTimers} runs`);
+      }
+      this.fire(this.timers[0]);
+      await flushPromises();
+    }
+  }
+
+  private async runUntil(target: number): Promise<void> {
+    await flushPromises();
+    while (this.timers.length > 0 && this.timers[0].at <= target) {
+      this.fire(this.timers[0]);
+      await flushPromises();
+    }
+    this.time = Math.max(this.time, target);
+  }
+
+  private fire(timer: VirtualTimer): void {
+    this.timers.shift();
+    this.time = Math.max(this.time, timer.at);
+    if (timer.every) this.add({ ...timer, at: this.time + timer.every });
+    timer.fn();
+  }
+
+  private add(timer: VirtualTimer): number {
+    // Stable insert: equal due times keep the order they were set in
+    const index = this.timers.findIndex(candidate => candidate.at > timer.at);
+    if (index < 0) this.timers.push(timer);
+    else this.timers.splice(index, 0, timer);
+    return timer.id;
+  }
+}
+
+// Enough turns of the microtask queue for chained .then() callbacks to run
+async function flushPromises(turns = 20): Promise<void> {
+  for (let i = 0; i < turns; i++) {
+    await Promise.resolve();
+  }
+}
+
+export const systemClock = new SystemClock();
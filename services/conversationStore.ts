@@ -0,0 +1,81 @@
+import type { ConversationSnapshot } from '../components/chat-types';
+
+const STORAGE_KEY = 'leadexec-copilot:conversation';
+const SNAPSHOT_VERSION = 2;
+
+/**
+ * Saves the in-progress conversation to localStorage so it can be resumed
+ * after a reload. Storage failures (quota, private mode) are logged and
+ * otherwise ignored; the chat keeps working without persistence.
+ */
+export class ConversationStore {
+  constructor(private storageKey = STORAGE_KEY) {}
+
+  private get storage(): Storage | null {
+    try {
+      return typeof window !== 'undefined' ? window.localStorage : null;
+    } catch {
+      return null;
+    }
+  }
+
+  save(snapshot: Omit<ConversationSnapshot, 'version' | 'savedAt'>): void {
+    const record: ConversationSnapshot = {
+      ...snapshot,
+      version: SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString()
+    };
+
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(record));
+    } catch (error) {
+      console.warn('Failed to save conversation:', error);
+    }
+  }
+
+  load(): ConversationSnapshot | null {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      if (!raw) return null;
+
+      const snapshot = JSON.parse(raw) as ConversationSnapshot;
+      // Snapshots from an older format cannot be restored reliably
+      if (snapshot.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.messages)) {
+        this.clear();
+        return null;
+      }
+      return snapshot;
+    } catch (error) {
+      console.warn('Failed to load saved conversation:', error);
+      return null;
+    }
+  }
+
+  clear(): void {
+    try {
+      this.storage?.removeItem(this.storageKey);
+    } catch (error) {
+      console.warn('Failed to clear saved conversation:', error);
+    }
+  }
+}
+
+export const conversationStore = new ConversationStore();
+
+/** Session that keeps the original key, so conversations saved before sessions existed still resume */
+export const DEFAULT_SESSION_ID = 'default';
+
+const sessionStores = new Map<string, ConversationStore>();
+
+/**
+ * Store for one chat session
+ */
+export function getSessionConversationStore(sessionId: string): ConversationStore {
+  if (sessionId === DEFAULT_SESSION_ID) return conversationStore;
+  let store = sessionStores.get(sessionId);
+  if (!store) {
+    store = new ConversationStore(`${STORAGE_KEY}:${sessionId}`);
+    sessionStores.set(sessionId, store);
+  }
+  return store;
+}
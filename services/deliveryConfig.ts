@@ -0,0 +1,169 @@
+// Delivery method configs per transport and the rules that check them,
+// shared by LeadExecAPI, the mock server and the chat forms
+
+export type DeliveryType = 'email' | 'webhook' | 'ftp' | 'pingpost' | 'other';
+
+export interface EmailDeliveryConfig {
+  type: 'email';
+  /** Addresses each lead is sent to */
+  recipients: string[];
+  /** Lead fields left out of the email */
+  excludedFields?: string[];
+  template?: 'generic' | 'custom';
+}
+
+export interface WebhookDeliveryConfig {
+  type: 'webhook';
+  url: string;
+  method: 'POST' | 'PUT';
+  /** Sent with each request so the receiver can verify it */
+  secret?: string;
+  /** Lead fields are renamed by a mapping set up with the client */
+  customFieldMapping?: boolean;
+}
+
+export interface FtpDeliveryConfig {
+  type: 'ftp';
+  protocol: 'ftp' | 'sftp';
+  host: string;
+  /** Defaults to 21 for FTP and 22 for SFTP */
+  port?: number;
+  username: string;
+  password?: string;
+  /** Remote directory lead files are written to */
+  directory?: string;
+}
+
+export interface PingPostDeliveryConfig {
+  type: 'pingpost';
+  pingUrl: string;
+  postUrl: string;
+  timeoutSeconds: number;
+}
+
+/** Transports without a typed config; settings go to LeadExec as given */
+export interface OtherDeliveryConfig {
+  type: 'other';
+  settings: Record<string, unknown>;
+}
+
+export type DeliveryConfig =
+  | EmailDeliveryConfig
+  | WebhookDeliveryConfig
+  | FtpDeliveryConfig
+  | PingPostDeliveryConfig
+  | OtherDeliveryConfig;
+
+/** Patterns as strings, so forms can use them as regex rules */
+export const DELIVERY_PATTERNS = {
+  url: '^https?://[^\\s/?#]+[^\\s]*$',
+  host: '^[A-Za-z0-9]([A-Za-z0-9.-]*[A-Za-z0-9])?$',
+  email: '^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$'
+};
+
+type DeliveryPattern = keyof typeof DELIVERY_PATTERNS;
+
+const PATTERN_MESSAGES: Record<DeliveryPattern, string> = {
+  url: 'must be a valid http(s) URL',
+  host: 'must be a host name or IP address',
+  email: 'must be a valid email address'
+};
+
+/** One property of a config; list properties apply the pattern to each item */
+export interface DeliveryConfigRule {
+  key: string;
+  label: string;
+  required?: boolean;
+  pattern?: DeliveryPattern;
+  min?: number;
+  max?: number;
+  oneOf?: readonly string[];
+}
+
+export const DELIVERY_CONFIG_RULES: Record<DeliveryType, DeliveryConfigRule[]> = {
+  email: [
+    { key: 'recipients', label: 'Recipients', required: true, pattern: 'email' },
+    { key: 'template', label: 'Email template', oneOf: ['generic', 'custom'] }
+  ],
+  webhook: [
+    { key: 'url', label: 'Webhook URL', required: true, pattern: 'url' },
+    { key: 'method', label: 'HTTP method', required: true, oneOf: ['POST', 'PUT'] }
+  ],
+  ftp: [
+    { key: 'protocol', label: 'Protocol', required: true, oneOf: ['ftp', 'sftp'] },
+    { key: 'host', label: 'FTP host', required: true, pattern: 'host' },
+    { key: 'port', label: 'Port', min: 1, max: 65535 },
+    { key: 'username', label: 'FTP username', required: true }
+  ],
+  pingpost: [
+    { key: 'pingUrl', label: 'Ping URL', required: true, pattern: 'url' },
+    { key: 'postUrl', label: 'Post URL', required: true, pattern: 'url' },
+    { key: 'timeoutSeconds', label: 'Timeout', required: true, min: 5, max: 300 }
+  ],
+  other: []
+};
+
+export type DeliveryRuleCheck = 'required' | 'pattern' | 'min' | 'max' | 'oneOf';
+
+/** Message for a rule's check, the same in forms and API errors */
+export function deliveryRuleMessage(rule: DeliveryConfigRule, check: DeliveryRuleCheck): string {
+  switch (check) {
+    case 'required': return `${rule.label} is required`;
+    case 'pattern': return `${rule.label} ${rule.pattern ? PATTERN_MESSAGES[rule.pattern] : 'is not valid'}`;
+    case 'min': return `${rule.label} must be at least ${rule.min}`;
+    case 'max': return `${rule.label} must be at most ${rule.max}`;
+    case 'oneOf': return `${rule.label} must be one of ${rule.oneOf?.join(', ')}`;
+  }
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && value.length === 0);
+
+function checkRule(rule: DeliveryConfigRule, value: unknown): DeliveryRuleCheck | null {
+  if (isBlank(value)) return rule.required ? 'required' : null;
+
+  if (rule.min !== undefined || rule.max !== undefined) {
+    const number = Number(value);
+    if (!Number.isFinite(number)) return 'pattern';
+    if (rule.min !== undefined && number < rule.min) return 'min';
+    if (rule.max !== undefined && number > rule.max) return 'max';
+  }
+  if (rule.oneOf && !rule.oneOf.includes(String(value))) return 'oneOf';
+  if (rule.pattern) {
+    const pattern = new RegExp(DELIVERY_PATTERNS[rule.pattern]);
+    const items = Array.isArray(value) ? value : [value];
+    if (!items.every(item => typeof item === 'string' && pattern.test(item.trim()))) return 'pattern';
+  }
+  return null;
+}
+
+/**
+ * Problems with a config, as a message per property; empty when it is
+ * valid. Unknown types are reported on the type property.
+ */
+export function validateDeliveryConfig(config: DeliveryConfig): Record<string, string> {
+  const rules = DELIVERY_CONFIG_RULES[config?.type];
+  if (!rules) return { type: `Unknown delivery type "${config?.type}"` };
+
+  const values = config as unknown as Record<string, unknown>;
+  const errors: Record<string, string> = {};
+  rules.forEach(rule => {
+    const check = checkRule(rule, values[rule.key]);
+    if (check) errors[rule.key] = deliveryRuleMessage(rule, check);
+  });
+  return errors;
+}
+
+/** The Settings LeadExec stores for a config: everything but the type */
+export function toDeliverySettings(config: DeliveryConfig): Record<string, unknown> {
+  if (config.type === 'other') return config.settings;
+  const { type: _type, ...settings } = config;
+  return settings;
+}
+
+/** The config stored Settings describe; other types keep them as they are */
+export function fromDeliverySettings(type: DeliveryType, settings: Record<string, unknown>): DeliveryConfig {
+  return type === 'other'
+    ? { type, settings }
+    : { ...settings, type } as DeliveryConfig;
+}
@@ -0,0 +1,171 @@
+// Typed chat events and the sinks they are written to
+import { downloadFile } from '../components/chat-utils';
+
+/** Payload of each chat event, by event type */
+export interface ChatEventMap {
+  flow_started: {
+    flowId: string;
+    runId: string;
+    /** Picked up again from a saved session rather than started fresh */
+    resumed?: boolean;
+  };
+  step_completed: { flowId: string; runId: string; stepId: string };
+  /** A flow was left before it finished: another tool was picked, the chat was reset or closed */
+  step_abandoned: { flowId: string; runId: string; stepId: string | null; completedSteps: string[] };
+  module_interaction: {
+    flowId: string | null;
+    runId: string | null;
+    stepId: string | null;
+    /** Event raised by the module, e.g. choice, submit, action */
+    event: string;
+    /** Option, button or field ids involved; never the values entered */
+    target?: string;
+  };
+  api_call: { operation: string; durationMs: number; ok: boolean; error?: string };
+  /** A failed request is about to be tried again; attempt is the upcoming one */
+  api_retry: { operation: string; attempt: number; maxAttempts: number; delayMs: number; error: string };
+  error: { source: string; message: string; flowId: string | null; stepId: string | null };
+}
+
+export type ChatEventType = keyof ChatEventMap;
+
+export type ChatEvent = {
+  [K in ChatEventType]: { type: K; timestamp: string; data: ChatEventMap[K] }
+}[ChatEventType];
+
+/** Destination for chat events: the console, storage, a collector... */
+export interface EventSink {
+  write(event: ChatEvent): void;
+}
+
+export type ChatEventListener = (event: ChatEvent) => void;
+
+/**
+ * Typed stream of what happens in the chat. Emitting never throws: a sink or
+ * listener that fails is logged and the others still receive the event.
+ */
+export class EventBus {
+  private sinks = new Set<EventSink>();
+  private listeners = new Set<ChatEventListener>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  emit<K extends ChatEventType>(type: K, data: ChatEventMap[K]): void {
+    const event = { type, timestamp: new Date(this.now()).toISOString(), data } as ChatEvent;
+    [...this.sinks].forEach(sink => this.deliver(() => sink.write(event)));
+    [...this.listeners].forEach(listener => this.deliver(() => listener(event)));
+  }
+
+  /** Returns a function that removes the sink again */
+  addSink(sink: EventSink): () => void {
+    this.sinks.add(sink);
+    return () => {
+      this.sinks.delete(sink);
+    };
+  }
+
+  /** Returns a function that unsubscribes the listener */
+  subscribe(listener: ChatEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private deliver(write: () => void): void {
+    try {
+      write();
+    } catch (error) {
+      console.warn('Failed to deliver chat event:', error);
+    }
+  }
+}
+
+export class ConsoleSink implements EventSink {
+  write(event: ChatEvent): void {
+    console.debug(`[chat event] ${event.type}`, event.data);
+  }
+}
+
+const STORAGE_KEY = 'leadexec-copilot:events';
+
+/**
+ * Keeps the most recent events in localStorage, dropping the oldest once
+ * capacity is reached. Storage failures are logged and otherwise ignored.
+ */
+export class LocalStorageSink implements EventSink {
+  constructor(private storageKey = STORAGE_KEY, private capacity = 1000) {}
+
+  private get storage(): Storage | null {
+    try {
+      return typeof window !== 'undefined' ? window.localStorage : null;
+    } catch {
+      return null;
+    }
+  }
+
+  write(event: ChatEvent): void {
+    const events = [...this.read(), event].slice(-this.capacity);
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(events));
+    } catch (error) {
+      console.warn('Failed to store chat event:', error);
+    }
+  }
+
+  /** Stored events, oldest first */
+  read(): ChatEvent[] {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      const events = raw ? JSON.parse(raw) : [];
+      return Array.isArray(events) ? events : [];
+    } catch (error) {
+      console.warn('Failed to read stored chat events:', error);
+      return [];
+    }
+  }
+
+  clear(): void {
+    try {
+      this.storage?.removeItem(this.storageKey);
+    } catch (error) {
+      console.warn('Failed to clear stored chat events:', error);
+    }
+  }
+}
+
+/** One JSON event per line */
+export function toNdjson(events: ChatEvent[]): string {
+  return events.map(event => JSON.stringify(event)).join('\n') + (events.length > 0 ? '\n' : '');
+}
+
+/** Save events as an NDJSON file */
+export function downloadEvents(events: ChatEvent[], filename = `leadexec-events-${new Date().toISOString().slice(0, 10)}.ndjson`): void {
+  downloadFile(filename, toNdjson(events), 'application/x-ndjson');
+}
+
+/**
+ * Collects events in memory until they are downloaded as an NDJSON file
+ */
+export class NdjsonDownloadSink implements EventSink {
+  private events: ChatEvent[] = [];
+
+  write(event: ChatEvent): void {
+    this.events.push(event);
+  }
+
+  get size(): number {
+    return this.events.length;
+  }
+
+  /** Save the collected events and start collecting afresh */
+  download(filename?: string): void {
+    downloadEvents(this.events, filename);
+    this.events = [];
+  }
+}
+
+export const eventBus = new EventBus();
+
+/** Events kept across reloads; the funnel view reads from here */
+export const eventLog = new LocalStorageSink();
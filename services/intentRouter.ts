@@ -0,0 +1,201 @@
+// Local rule/keyword intent classifier for free-text chat input
+
+export interface IntentRule {
+  /** Tool id from TOOL_NAMES / TOOL_CATEGORIES, or HELP_INTENT */
+  intent: string;
+  /** Help category used when the input is too vague to route */
+  category?: string;
+  /** Phrases that identify the intent on their own */
+  phrases?: string[];
+  /**
+   * Keyword groups; confidence grows with the share of groups that have at
+   * least one word in the input (e.g. an action group and an object group)
+   */
+  keywords?: string[][];
+  /** Words that rule the intent out */
+  exclude?: string[];
+  /** Scales the confidence, for broad intents that should yield to specific ones */
+  weight?: number;
+}
+
+export interface IntentMatch {
+  intent: string;
+  confidence: number;
+  category?: string;
+}
+
+export interface IntentClassification {
+  text: string;
+  /**
+   * route: confident single match; clarify: a few plausible matches to choose
+   * from; fallback: nothing close enough
+   */
+  decision: 'route' | 'clarify' | 'fallback';
+  best: IntentMatch | null;
+  /** All matches with some confidence, best first */
+  candidates: IntentMatch[];
+}
+
+export interface IntentThresholds {
+  /** Minimum confidence to route without asking */
+  route: number;
+  /** Minimum lead over the runner-up to route without asking */
+  margin: number;
+  /** Below this nothing is suggested */
+  clarify: number;
+}
+
+export const HELP_INTENT = 'help';
+
+const PHRASE_CONFIDENCE = 0.95;
+const KEYWORD_CONFIDENCE = 0.9;
+
+const DEFAULT_THRESHOLDS: IntentThresholds = {
+  route: 0.6,
+  margin: 0.15,
+  clarify: 0.3
+};
+
+const CLIENT_WORDS = ['client', 'customer', 'advertiser', 'buyer'];
+
+export const DEFAULT_INTENT_RULES: IntentRule[] = [
+  {
+    intent: HELP_INTENT,
+    category: 'General',
+    phrases: ['help', 'best practice', 'how do i', 'how to', 'what can you do', 'getting started', 'documentation', 'lead routing'],
+    weight: 0.75
+  },
+  {
+    intent: 'create-new-client',
+    category: 'Clients',
+    phrases: ['new client', 'create client', 'add client', 'client setup', 'set up client', 'onboard'],
+    keywords: [['create', 'new', 'add', 'set up', 'setup', 'onboard', 'register', 'make', 'clone', 'duplicate'], CLIENT_WORDS],
+    exclude: ['bulk', 'upload', 'spreadsheet', 'import', 'csv', 'excel', 'xlsx', 'file', 'multiple', 'batch']
+  },
+  {
+    intent: 'bulk-client-upload',
+    category: 'Clients',
+    phrases: ['bulk upload', 'bulk import', 'import client', 'upload client'],
+    keywords: [['bulk', 'upload', 'import', 'spreadsheet', 'csv', 'excel', 'xlsx', 'file', 'multiple', 'batch'], CLIENT_WORDS]
+  },
+  {
+    intent: 'client-search-filter',
+    category: 'Clients',
+    phrases: ['inactive client', 'active client', 'pending client', 'find client', 'search client', 'client list'],
+    keywords: [['show', 'find', 'search', 'list', 'filter', 'which', 'lookup', 'look up'], CLIENT_WORDS]
+  },
+  {
+    intent: 'client-management',
+    category: 'Clients',
+    phrases: ['manage client', 'edit client', 'update client'],
+    keywords: [['manage', 'edit', 'update', 'change', 'deactivate', 'activate', 'delete', 'remove'], CLIENT_WORDS]
+  },
+  {
+    intent: 'delivery-configuration',
+    category: 'Clients',
+    phrases: ['delivery method', 'delivery setting', 'configure delivery'],
+    keywords: [['delivery', 'deliver', 'webhook', 'ftp', 'ping post', 'pingpost'], ['configure', 'config', 'setup', 'set up', 'change', 'update', 'setting', 'method']]
+  },
+  {
+    intent: 'lead-sources',
+    category: 'Leads',
+    phrases: ['lead source'],
+    keywords: [['lead'], ['source', 'vendor', 'supplier', 'provider', 'campaign']]
+  },
+  {
+    intent: 'revenue-reports',
+    category: 'Financial',
+    phrases: ['revenue report'],
+    keywords: [['revenue', 'income', 'sales', 'profit', 'earning', 'financial'], ['report', 'summary', 'breakdown', 'chart', 'number']]
+  },
+  {
+    intent: 'user-management',
+    category: 'System',
+    phrases: ['user management', 'add user', 'team member'],
+    keywords: [['user', 'team', 'member', 'teammate'], ['add', 'invite', 'manage', 'remove', 'permission', 'role']]
+  }
+];
+
+/**
+ * Reduce a word to a rough singular so "clients" matches "client"
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(stem);
+}
+
+function containsSequence(tokens: string[], sequence: string[]): boolean {
+  if (sequence.length === 0) return false;
+  for (let start = 0; start + sequence.length <= tokens.length; start++) {
+    if (sequence.every((token, offset) => tokens[start + offset] === token)) return true;
+  }
+  return false;
+}
+
+/**
+ * Maps free text to tool ids with a rule table. Runs entirely in the browser;
+ * add rules to teach it new phrasings or tools.
+ */
+export class IntentRouter {
+  private rules: IntentRule[];
+
+  constructor(rules: IntentRule[] = DEFAULT_INTENT_RULES, private thresholds: IntentThresholds = DEFAULT_THRESHOLDS) {
+    this.rules = [...rules];
+  }
+
+  /** Add a rule, replacing any existing rule for the same intent */
+  addRule(rule: IntentRule): void {
+    this.rules = [...this.rules.filter(existing => existing.intent !== rule.intent), rule];
+  }
+
+  getRules(): IntentRule[] {
+    return [...this.rules];
+  }
+
+  classify(text: string): IntentClassification {
+    const tokens = tokenize(text);
+    const has = (phrase: string) => containsSequence(tokens, tokenize(phrase));
+
+    const candidates = this.rules
+      .map(rule => ({ intent: rule.intent, category: rule.category, confidence: this.score(rule, has) }))
+      .filter(match => match.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const [best, runnerUp] = candidates;
+    const { route, margin, clarify } = this.thresholds;
+
+    let decision: IntentClassification['decision'] = 'fallback';
+    if (best && best.confidence >= route && (!runnerUp || best.confidence - runnerUp.confidence >= margin)) {
+      decision = 'route';
+    } else if (best && best.confidence >= clarify) {
+      decision = 'clarify';
+    }
+
+    return { text, decision, best: best || null, candidates };
+  }
+
+  private score(rule: IntentRule, has: (phrase: string) => boolean): number {
+    if (rule.exclude?.some(has)) return 0;
+
+    let confidence = 0;
+    if (rule.phrases?.some(has)) {
+      confidence = PHRASE_CONFIDENCE;
+    } else if (rule.keywords?.length) {
+      const matched = rule.keywords.filter(group => group.some(has)).length;
+      confidence = KEYWORD_CONFIDENCE * (matched / rule.keywords.length);
+    }
+    return confidence * (rule.weight ?? 1);
+  }
+}
+
+export const intentRouter = new IntentRouter();
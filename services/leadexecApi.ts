@@ -1,194 +1,666 @@
-interface MCPClientInfo {
-  ClientUID: number;
-  DateAdded?: string;
-  Status?: string;
-  UserUID?: number;
-  TimeOffset?: number;
-  TimeZoneName?: string;
-  Notes?: string;
-  ResellerUID?: number;
-  GroupUID?: number;
-  Username: string;
-  Password: string;
-  OverrideReassign?: boolean;
-  DeliveryAccountAutomationType?: string;
-}
-
-interface MCPFieldData {
-  ClientFieldUID: number;
-  Value: string;
-}
-
-interface MCPClientRequest {
-  Info: MCPClientInfo;
-  FieldData: MCPFieldData[];
-}
-
-interface MCPClientResponse {
-  success: boolean;
-  ClientUID?: number;
+import { eventBus, type EventBus } from './eventBus';
+import { apiSettingsStore, toApiSettings, type ApiConnection, type ApiSettings } from './apiSettings';
+import { apiCallLog, type ApiCallLog, type ApiCallRecord } from './apiCallLog';
+import { systemClock, type Clock } from './clock';
+import { HttpTransport, LeadExecHttpError, type HttpMethod, type LeadExecRequest, type LeadExecResponse, type LeadExecTransport, type TransportMode } from './leadexecTransport';
+import {
+  createIdempotencyKey,
+  DEFAULT_RETRY_POLICY,
+  isRetryable,
+  LeadExecTimeoutError,
+  retryDelay,
+  type RetryAttempt,
+  type RetryPolicy
+} from './leadexecRetry';
+import { AuthError, NetworkError, toLeadExecError, ValidationError } from './leadexecErrors';
+import { toDeliverySettings, validateDeliveryConfig, type DeliveryConfig } from './deliveryConfig';
+import { MockLeadExecServer } from './leadexecMockServer';
+import {
+  type ClientConfiguration,
+  type ClientConfigurationsResponse,
+  type MCPClient,
+  type MCPClientDetailResponse,
+  type MCPClientFieldsResponse,
+  type MCPClientFieldType,
+  type MCPClientInfo,
+  type MCPClientListResponse,
+  type MCPClientRequest,
+  type MCPClientUpdateRequest,
+  type MCPDeleteResponse,
+  type MCPClientResponse,
+  type MCPDeliveryAccountRequest,
+  type MCPDeliveryAccountResponse,
+  type MCPDeliveryMethodRequest,
+  type MCPDeliveryMethodResponse
+} from './leadexecMcp';
+
+export type { ClientConfiguration } from './leadexecMcp';
+
+export interface NewClient {
+  companyName: string;
+  email: string;
+  username: string;
+  password: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  notes?: string;
+  status?: string;
+  /** Values of the account's other client fields, keyed by field name */
+  fields?: Record<string, string>;
+}
+
+export interface NewDeliveryAccount {
+  accountName: string;
+  limits: {
+    hourly?: number;
+    daily?: number;
+    weekly?: number;
+    monthly?: number;
+  };
+  settings: Record<string, any>;
+}
+
+/** A client field of the account, as returned by getClientFieldDefinitions */
+export interface ClientFieldDefinition {
+  uid: number;
+  /** Stable key, e.g. companyName; NewClient values are matched by it */
+  name: string;
+  label: string;
+  type: MCPClientFieldType;
+  required: boolean;
+  options?: string[];
+}
+
+/** Outcome of one client of bulkCreateClients, in the order they were given */
+export interface BulkClientResult {
+  companyName: string;
+  clientUID?: number;
   error?: string;
 }
 
-// Mock field definitions - in real implementation, these would come from the API
-const CLIENT_FIELDS = {
-  COMPANY_NAME: 1,
-  EMAIL: 2,
-  PHONE: 3,
-  FIRST_NAME: 4,
-  LAST_NAME: 5
-};
+export type ClientStatus = 'New' | 'Active' | 'Inactive';
+
+/** A client read back from LeadExec */
+export interface LeadExecClient {
+  clientUID: number;
+  status: string;
+  username: string;
+  dateAdded?: string;
+  notes?: string;
+  companyName: string;
+  email: string;
+  /** Every field value the client has, keyed by field name */
+  fields: Record<string, string>;
+}
+
+export type ClientSortKey = 'companyName' | 'dateAdded' | 'status';
+
+export interface ClientListQuery {
+  /** Matches company name, email or username */
+  search?: string;
+  status?: ClientStatus;
+  sort?: ClientSortKey;
+  order?: 'asc' | 'desc';
+  /** nextCursor of the previous page */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ClientPage {
+  clients: LeadExecClient[];
+  /** Cursor for the next page; null on the last one */
+  nextCursor: string | null;
+  /** Clients matching the query, across all pages */
+  total: number;
+}
+
+export interface ClientUpdate {
+  /** Info properties to change; the others keep their values */
+  info?: Partial<Pick<MCPClientInfo, 'Status' | 'Username' | 'Password' | 'Notes' | 'TimeZoneName' | 'TimeOffset'>>;
+  /** Field values to change, keyed by field name; the other fields keep their values */
+  fields?: Record<string, string>;
+}
+
+export interface LeadExecApiOptions {
+  retry?: Partial<RetryPolicy>;
+  /** Timer source for timeouts and backoff */
+  clock?: Clock;
+  /** Jitter source, between 0 and 1 */
+  random?: () => number;
+  /** Where requests go; without it and a transport, the saved active connection */
+  connection?: ApiConnection;
+  /** Records every attempt for the request inspector */
+  calls?: ApiCallLog;
+}
+
+/**
+ * A request as LeadExecAPI would send it. Building one sends nothing;
+ * before the client exists its UID in the path is {ClientUID}.
+ */
+export interface RequestPreview {
+  operation: string;
+  method: HttpMethod;
+  path: string;
+  body: unknown;
+}
+
+/** Outcome of checking a connection's API key with a cheap authenticated request */
+export type ConnectionCheck =
+  | { ok: true; latencyMs: number }
+  | { ok: false; reason: 'missing-token' | 'invalid-token' | 'unreachable' | 'error'; message: string };
+
+export interface RequestOptions {
+  /** Called before each retry, e.g. to show the attempt in progress */
+  onRetry?: (retry: RetryAttempt) => void;
+}
+
+// One mock server for the app, so its data survives switching to live and back
+const mockServer = new MockLeadExecServer();
+
+/** Transport for the given settings */
+export function createLeadExecTransport(settings: ApiSettings): LeadExecTransport {
+  return settings.mode === 'live'
+    ? new HttpTransport(settings.baseURL, settings.bearerToken)
+    : mockServer;
+}
 
+// NewClient properties that hold a client field value of the same name
+const NAMED_FIELDS = ['companyName', 'email', 'phone', 'firstName', 'lastName'] as const;
+
+function fieldValue(clientData: NewClient, name: string): string | undefined {
+  const named = (NAMED_FIELDS as readonly string[]).includes(name)
+    ? clientData[name as typeof NAMED_FIELDS[number]]
+    : undefined;
+  return clientData.fields?.[name] ?? named;
+}
+
+/**
+ * Request for a new client. FieldData holds a value for each of the
+ * account's fields that clientData fills; values for fields the account
+ * does not have are left out.
+ */
+function toClientRequest(clientData: NewClient, fields: ClientFieldDefinition[]): MCPClientRequest {
+  return {
+    Info: {
+      ClientUID: 0, // 0 for new client
+      Status: clientData.status || 'New',
+      Username: clientData.username,
+      Password: clientData.password,
+      Notes: clientData.notes || '',
+      DateAdded: new Date().toISOString(),
+    },
+    FieldData: fields.flatMap(field => {
+      const value = fieldValue(clientData, field.name);
+      return value ? [{ ClientFieldUID: field.uid, Value: value }] : [];
+    })
+  };
+}
+
+// A delete answered with 204 No Content went through
+const deleted = (response: MCPDeleteResponse | undefined): MCPDeleteResponse => response ?? { success: true };
+
+const clientPath = (clientUID: number | null) => `/v1/clients/${clientUID ?? '{ClientUID}'}`;
+
+function toClient({ Info, FieldData }: MCPClient, fields: ClientFieldDefinition[]): LeadExecClient {
+  const values: Record<string, string> = {};
+  FieldData.forEach(data => {
+    const field = fields.find(definition => definition.uid === data.ClientFieldUID);
+    if (field) values[field.name] = data.Value;
+  });
+  return {
+    clientUID: Info.ClientUID,
+    status: Info.Status || 'New',
+    username: Info.Username,
+    ...(Info.DateAdded ? { dateAdded: Info.DateAdded } : {}),
+    ...(Info.Notes ? { notes: Info.Notes } : {}),
+    companyName: values.companyName || '',
+    email: values.email || '',
+    fields: values
+  };
+}
+
+/**
+ * LeadExec client API. Requests go through a transport: the live HTTP API
+ * or the in-process mock server, chosen by the active API connection and
+ * switchable at runtime with connect(). Requests that fail with 429, a
+ * server error or a timeout are retried with backoff; mutating requests
+ * carry an idempotency key, so a retry never acts twice.
+ */
 export class LeadExecAPI {
-  private baseURL = 'https://api.leadexec.com'; // Replace with actual API URL
-  private bearerToken = 'YOUR_API_KEY_HERE'; // Replace with actual token
+  // Client field definitions per transport account
+  private clientFields = new Map<string, Promise<ClientFieldDefinition[]>>();
+  private transport: LeadExecTransport;
+  private current: ApiConnection | null;
+  private connectionListeners = new Set<(connection: ApiConnection | null) => void>();
+  private policy: RetryPolicy;
+  private clock: Clock;
+  private random: () => number;
+  private calls: ApiCallLog;
+
+  constructor(
+    transport?: LeadExecTransport,
+    private events: EventBus = eventBus,
+    { retry, clock = systemClock, random = Math.random, connection, calls = apiCallLog }: LeadExecApiOptions = {}
+  ) {
+    if (transport) {
+      this.transport = transport;
+      this.current = connection ?? null;
+    } else {
+      this.current = connection ?? apiSettingsStore.active();
+      this.transport = createLeadExecTransport(toApiSettings(this.current));
+    }
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...retry };
+    this.clock = clock;
+    this.random = random;
+    this.calls = calls;
+  }
+
+  get mode(): TransportMode {
+    return this.transport.mode;
+  }
+
+  /** The connection requests go to; null when a transport was set directly */
+  get connection(): ApiConnection | null {
+    return this.current;
+  }
 
-  constructor(bearerToken?: string) {
-    if (bearerToken) {
-      this.bearerToken = bearerToken;
+  /** Send requests to connection from now on; saving it is up to the caller */
+  connect(connection: ApiConnection): void {
+    this.current = connection;
+    this.transport = createLeadExecTransport(toApiSettings(connection));
+    this.connectionListeners.forEach(listener => listener(connection));
+  }
+
+  /** Called whenever the connection changes; returns an unsubscribe function */
+  onConnectionChange(listener: (connection: ApiConnection | null) => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  setTransport(transport: LeadExecTransport): void {
+    this.transport = transport;
+    this.current = null;
+    this.connectionListeners.forEach(listener => listener(null));
+  }
+
+  /**
+   * Whether connection answers and accepts its API key, by fetching the
+   * client fields once without retries. Does not change the connection in use.
+   */
+  async checkConnection(connection: ApiConnection): Promise<ConnectionCheck> {
+    const settings = toApiSettings(connection);
+    if (settings.mode === 'live' && !settings.bearerToken.trim()) {
+      return { ok: false, reason: 'missing-token', message: 'Enter an API key to check' };
+    }
+    const started = this.clock.now();
+    try {
+      await this.inspect<MCPClientFieldsResponse>(
+        { operation: 'checkConnection', attempt: 1 },
+        { method: 'GET', path: '/v1/client-fields' },
+        createLeadExecTransport(settings)
+      );
+      return { ok: true, latencyMs: this.clock.now() - started };
+    } catch (error) {
+      const typed = toLeadExecError(error);
+      const message = typed instanceof Error ? typed.message : String(typed);
+      if (typed instanceof AuthError) return { ok: false, reason: 'invalid-token', message: 'LeadExec rejected the API key' };
+      if (typed instanceof NetworkError) return { ok: false, reason: 'unreachable', message };
+      return { ok: false, reason: 'error', message };
     }
   }
 
-  private async makeRequest<T>(
-    endpoint: string,
-    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
-    data?: any
+  /**
+   * Send a request, trying again while it fails in a retryable way and
+   * attempts are left. Each retry is reported as an api_retry event and to
+   * onRetry; the final failure is thrown as a typed error (leadexecErrors).
+   */
+  private async send<T>(operation: string, request: LeadExecRequest, { onRetry }: RequestOptions = {}): Promise<T> {
+    const maxAttempts = this.policy.retries + 1;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.inspect<T>({ operation, attempt }, request);
+      } catch (error) {
+        if (attempt >= maxAttempts || !isRetryable(error)) throw toLeadExecError(error);
+        const retry: RetryAttempt = {
+          attempt: attempt + 1,
+          maxAttempts,
+          delayMs: retryDelay(this.policy, attempt, error, this.random),
+          error: error instanceof Error ? error : new Error(String(error))
+        };
+        this.events.emit('api_retry', { operation, attempt: retry.attempt, maxAttempts, delayMs: retry.delayMs, error: retry.error.message });
+        onRetry?.(retry);
+        await new Promise<void>(resolve => this.clock.setTimeout(resolve, retry.delayMs));
+      }
+    }
+  }
+
+  /**
+   * Send a recorded request to the mock server once more, e.g. to see how
+   * a failed live call behaves against known data. Mutating requests get a
+   * new idempotency key, so the mock acts on them again. The outcome is
+   * recorded as a call like any other.
+   */
+  async replayOnMock(call: ApiCallRecord): Promise<void> {
+    const request = this.calls.request(call);
+    try {
+      await this.inspect(
+        { operation: call.operation, attempt: 1, replayOf: call.id },
+        { ...request, ...(call.idempotencyKey ? { idempotencyKey: createIdempotencyKey() } : {}) },
+        mockServer
+      );
+    } catch {
+      // Failures are in the recorded call
+    }
+  }
+
+  // One attempt, recorded in the call log with its outcome
+  private async inspect<T>(
+    call: Pick<ApiCallRecord, 'operation' | 'attempt' | 'replayOf'>,
+    request: LeadExecRequest,
+    transport: LeadExecTransport = this.transport
   ): Promise<T> {
-    const response = await fetch(`${this.baseURL}${endpoint}`, {
-      method,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.bearerToken}`,
-      },
-      body: data ? JSON.stringify(data) : undefined,
+    const started = this.clock.now();
+    const outcome = (fields: Pick<ApiCallRecord, 'status' | 'ok' | 'error' | 'replayed'>): Omit<ApiCallRecord, 'id' | 'requestBody' | 'responseBody'> => ({
+      ...call,
+      method: request.method,
+      path: request.path,
+      ...(request.query ? { query: request.query } : {}),
+      baseURL: transport instanceof HttpTransport ? transport.baseURL : null,
+      ...(request.idempotencyKey ? { idempotencyKey: request.idempotencyKey } : {}),
+      ...fields,
+      durationMs: this.clock.now() - started,
+      startedAt: new Date(started).toISOString()
     });
-
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+    try {
+      const { status, body, replayed } = await this.attempt<T>(request, transport);
+      this.calls.record(outcome({ status, ok: true, ...(replayed ? { replayed } : {}) }), request, body);
+      return body;
+    } catch (error) {
+      const answered = error instanceof LeadExecHttpError;
+      this.calls.record(
+        outcome({ status: answered ? error.status : null, ok: false, error: error instanceof Error ? error.message : String(error) }),
+        request,
+        answered ? error.body : undefined
+      );
+      throw error;
     }
+  }
 
-    return response.json();
-  }
-
-  async createClient(clientData: {
-    companyName: string;
-    email: string;
-    username: string;
-    password: string;
-    firstName?: string;
-    lastName?: string;
-    phone?: string;
-    notes?: string;
-    status?: string;
-  }): Promise<MCPClientResponse> {
-    // For demo purposes, we'll simulate the API call
-    console.log('Creating client with MCP API:', clientData);
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    // Mock successful response
-    const mockResponse: MCPClientResponse = {
-      success: true,
-      ClientUID: Math.floor(Math.random() * 10000) + 1000,
-      error: null
-    };
+  // One attempt, abandoned once the policy's timeout passes
+  private attempt<T>(request: LeadExecRequest, transport: LeadExecTransport = this.transport): Promise<LeadExecResponse<T>> {
+    const { timeoutMs } = this.policy;
+    const controller = new AbortController();
+    return new Promise<LeadExecResponse<T>>((resolve, reject) => {
+      const timer = this.clock.setTimeout(() => {
+        controller.abort();
+        reject(new LeadExecTimeoutError(timeoutMs));
+      }, timeoutMs);
+      transport.send<T>({ ...request, signal: controller.signal })
+        .then(resolve, reject)
+        .finally(() => this.clock.clearTimeout(timer));
+    });
+  }
 
-    return mockResponse;
-
-    /* Real implementation would be:
-    const mcpRequest: MCPClientRequest = {
-      Info: {
-        ClientUID: 0, // 0 for new client
-        Status: clientData.status || 'New',
-        Username: clientData.username,
-        Password: clientData.password,
-        Notes: clientData.notes || '',
-        DateAdded: new Date().toISOString(),
-      },
-      FieldData: [
-        {
-          ClientFieldUID: CLIENT_FIELDS.COMPANY_NAME,
-          Value: clientData.companyName
-        },
-        {
-          ClientFieldUID: CLIENT_FIELDS.EMAIL,
-          Value: clientData.email
-        },
-        ...(clientData.firstName ? [{
-          ClientFieldUID: CLIENT_FIELDS.FIRST_NAME,
-          Value: clientData.firstName
-        }] : []),
-        ...(clientData.lastName ? [{
-          ClientFieldUID: CLIENT_FIELDS.LAST_NAME,
-          Value: clientData.lastName
-        }] : []),
-        ...(clientData.phone ? [{
-          ClientFieldUID: CLIENT_FIELDS.PHONE,
-          Value: clientData.phone
-        }] : []),
-      ]
+  /**
+   * Run an API operation and report it as an api_call event. Responses with
+   * success: false count as failed calls.
+   */
+  private async track<T>(operation: string, call: () => Promise<T>): Promise<T> {
+    const started = this.clock.now();
+    const report = (ok: boolean, error?: string) => {
+      this.events.emit('api_call', {
+        operation,
+        durationMs: this.clock.now() - started,
+        ok,
+        ...(error ? { error } : {})
+      });
     };
 
-    return this.makeRequest<MCPClientResponse>('/v1/clients', 'PATCH', mcpRequest);
-    */
+    try {
+      const result = await call();
+      const failure = result as { success?: boolean; error?: string | null } | null;
+      if (failure?.success === false) report(false, failure.error || undefined);
+      else report(true);
+      return result;
+    } catch (error) {
+      report(false, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  /**
+   * The account's client fields. Fetched once per account; a failed fetch
+   * is not cached, so the next call tries again.
+   */
+  getClientFieldDefinitions(): Promise<ClientFieldDefinition[]> {
+    const { account } = this.transport;
+    let definitions = this.clientFields.get(account);
+    if (!definitions) {
+      definitions = this.track('getClientFieldDefinitions', async () => {
+        const response = await this.send<MCPClientFieldsResponse>('getClientFieldDefinitions', { method: 'GET', path: '/v1/client-fields' });
+        return response.Fields.map(field => ({
+          uid: field.ClientFieldUID,
+          name: field.Name,
+          label: field.Label,
+          type: field.Type,
+          required: field.Required,
+          ...(field.Options ? { options: field.Options } : {})
+        }));
+      });
+      const pending = definitions;
+      pending.catch(() => {
+        if (this.clientFields.get(account) === pending) this.clientFields.delete(account);
+      });
+      this.clientFields.set(account, definitions);
+    }
+    return definitions;
   }
 
-  async createDeliveryMethod(clientUID: number, deliveryConfig: {
-    type: 'email' | 'webhook' | 'ftp' | 'pingpost' | 'other';
-    settings: Record<string, any>;
-  }): Promise<{success: boolean; deliveryMethodUID?: number; error?: string}> {
-    console.log('Creating delivery method:', deliveryConfig);
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 800));
+  /** The request createClient would send; reads the client fields it needs */
+  async previewCreateClient(clientData: NewClient): Promise<RequestPreview> {
+    const fields = await this.getClientFieldDefinitions();
+    return { operation: 'createClient', method: 'PATCH', path: '/v1/clients', body: toClientRequest(clientData, fields) };
+  }
 
-    // Mock successful response
-    return {
-      success: true,
-      deliveryMethodUID: Math.floor(Math.random() * 10000) + 1000
-    };
+  async createClient(clientData: NewClient, options?: RequestOptions): Promise<MCPClientResponse> {
+    const { method, path, body } = await this.previewCreateClient(clientData);
+    return this.track('createClient', () => this.send<MCPClientResponse>('createClient', {
+      method,
+      path,
+      body,
+      idempotencyKey: createIdempotencyKey()
+    }, options));
   }
 
-  async createDeliveryAccount(clientUID: number, accountConfig: {
-    accountName: string;
-    limits: {
-      hourly?: number;
-      daily?: number;
-      weekly?: number;
-      monthly?: number;
-    };
-    settings: Record<string, any>;
-  }): Promise<{success: boolean; deliveryAccountUID?: number; error?: string}> {
-    console.log('Creating delivery account:', accountConfig);
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 800));
-
-    // Mock successful response
-    return {
-      success: true,
-      deliveryAccountUID: Math.floor(Math.random() * 10000) + 1000
-    };
+  /** A page of the account's clients; pass nextCursor back for the next one */
+  async listClients(query: ClientListQuery = {}): Promise<ClientPage> {
+    return this.track('listClients', async () => {
+      const fields = await this.getClientFieldDefinitions();
+      const { search, status, sort, order, cursor, limit } = query;
+      const response = await this.send<MCPClientListResponse>('listClients', {
+        method: 'GET',
+        path: '/v1/clients',
+        query: { search: search?.trim() || undefined, status, sort, order, cursor, limit }
+      });
+      return {
+        clients: response.Clients.map(client => toClient(client, fields)),
+        nextCursor: response.NextCursor,
+        total: response.Total
+      };
+    });
+  }
+
+  async getClient(clientUID: number): Promise<LeadExecClient> {
+    return this.track('getClient', async () => {
+      const fields = await this.getClientFieldDefinitions();
+      const response = await this.send<MCPClientDetailResponse>('getClient', {
+        method: 'GET',
+        path: `/v1/clients/${clientUID}`
+      });
+      return toClient(response.Client, fields);
+    });
+  }
+
+  /**
+   * Change some of a client's Info and field values. Field names the
+   * account does not have are refused before anything is sent.
+   */
+  async updateClient(clientUID: number, update: ClientUpdate, options?: RequestOptions): Promise<MCPClientResponse> {
+    const fields = await this.getClientFieldDefinitions();
+    const FieldData = Object.entries(update.fields || {}).map(([name, Value]) => {
+      const field = fields.find(definition => definition.name === name);
+      if (!field) throw new ValidationError(`Unknown client field "${name}"`, { [name]: 'This account has no such field' });
+      return { ClientFieldUID: field.uid, Value };
+    });
+    const body: MCPClientUpdateRequest = { Info: { ...update.info, ClientUID: clientUID }, FieldData };
+
+    return this.track('updateClient', () => this.send<MCPClientResponse>('updateClient', {
+      method: 'PATCH',
+      path: '/v1/clients',
+      body,
+      idempotencyKey: createIdempotencyKey()
+    }, options));
+  }
+
+  async setClientStatus(clientUID: number, status: ClientStatus, options?: RequestOptions): Promise<MCPClientResponse> {
+    return this.updateClient(clientUID, { info: { Status: status } }, options);
+  }
+
+  /** Delete a client together with its delivery methods and accounts */
+  async deleteClient(clientUID: number, options?: RequestOptions): Promise<MCPDeleteResponse> {
+    return this.track('deleteClient', async () => deleted(await this.send<MCPDeleteResponse | undefined>('deleteClient', {
+      method: 'DELETE',
+      path: `/v1/clients/${clientUID}`,
+      idempotencyKey: createIdempotencyKey()
+    }, options)));
+  }
+
+  /**
+   * The request createDeliveryMethod would send. A config that fails
+   * validateDeliveryConfig is refused with a ValidationError.
+   */
+  previewCreateDeliveryMethod(clientUID: number | null, deliveryConfig: DeliveryConfig): RequestPreview {
+    const fieldErrors = validateDeliveryConfig(deliveryConfig);
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new ValidationError(`Invalid ${deliveryConfig.type} delivery config: ${Object.values(fieldErrors).join('; ')}`, fieldErrors);
+    }
+    const body: MCPDeliveryMethodRequest = { Type: deliveryConfig.type, Settings: toDeliverySettings(deliveryConfig) };
+    return { operation: 'createDeliveryMethod', method: 'POST', path: `${clientPath(clientUID)}/delivery-methods`, body };
+  }
+
+  /**
+   * Add a delivery method. A config that fails validateDeliveryConfig is
+   * refused with a ValidationError before anything is sent.
+   */
+  async createDeliveryMethod(clientUID: number, deliveryConfig: DeliveryConfig, options?: RequestOptions): Promise<{success: boolean; deliveryMethodUID?: number; error?: string}> {
+    return this.track('createDeliveryMethod', async () => {
+      const { method, path, body } = this.previewCreateDeliveryMethod(clientUID, deliveryConfig);
+      const response = await this.send<MCPDeliveryMethodResponse>('createDeliveryMethod', {
+        method,
+        path,
+        body,
+        idempotencyKey: createIdempotencyKey()
+      }, options);
+      return {
+        success: response.success,
+        deliveryMethodUID: response.DeliveryMethodUID,
+        ...(response.error ? { error: response.error } : {})
+      };
+    });
+  }
+
+  async deleteDeliveryMethod(clientUID: number, deliveryMethodUID: number, options?: RequestOptions): Promise<MCPDeleteResponse> {
+    return this.track('deleteDeliveryMethod', async () => deleted(await this.send<MCPDeleteResponse | undefined>('deleteDeliveryMethod', {
+      method: 'DELETE',
+      path: `/v1/clients/${clientUID}/delivery-methods/${deliveryMethodUID}`,
+      idempotencyKey: createIdempotencyKey()
+    }, options)));
   }
 
-  async bulkCreateClients(clients: Array<{
-    companyName: string;
-    email: string;
-    username: string;
-    password: string;
-  }>): Promise<{success: boolean; createdClients?: number[]; errors?: string[]}> {
-    console.log('Bulk creating clients:', clients);
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    // Mock successful response
-    return {
-      success: true,
-      createdClients: clients.map(() => Math.floor(Math.random() * 10000) + 1000)
+  /** The request createDeliveryAccount would send */
+  previewCreateDeliveryAccount(clientUID: number | null, accountConfig: NewDeliveryAccount): RequestPreview {
+    const { hourly, daily, weekly, monthly } = accountConfig.limits;
+    const body: MCPDeliveryAccountRequest = {
+      AccountName: accountConfig.accountName,
+      Limits: { Hourly: hourly, Daily: daily, Weekly: weekly, Monthly: monthly },
+      Settings: accountConfig.settings
     };
+    return { operation: 'createDeliveryAccount', method: 'POST', path: `${clientPath(clientUID)}/delivery-accounts`, body };
+  }
+
+  async createDeliveryAccount(clientUID: number, accountConfig: NewDeliveryAccount, options?: RequestOptions): Promise<{success: boolean; deliveryAccountUID?: number; error?: string}> {
+    return this.track('createDeliveryAccount', async () => {
+      const { method, path, body } = this.previewCreateDeliveryAccount(clientUID, accountConfig);
+      const response = await this.send<MCPDeliveryAccountResponse>('createDeliveryAccount', {
+        method,
+        path,
+        body,
+        idempotencyKey: createIdempotencyKey()
+      }, options);
+      return {
+        success: response.success,
+        deliveryAccountUID: response.DeliveryAccountUID,
+        ...(response.error ? { error: response.error } : {})
+      };
+    });
+  }
+
+  async deleteDeliveryAccount(clientUID: number, deliveryAccountUID: number, options?: RequestOptions): Promise<MCPDeleteResponse> {
+    return this.track('deleteDeliveryAccount', async () => deleted(await this.send<MCPDeleteResponse | undefined>('deleteDeliveryAccount', {
+      method: 'DELETE',
+      path: `/v1/clients/${clientUID}/delivery-accounts/${deliveryAccountUID}`,
+      idempotencyKey: createIdempotencyKey()
+    }, options)));
+  }
+
+  /**
+   * Look up an existing client's configuration by company name. Exact
+   * matches win over partial ones; null when no client matches.
+   */
+  async findClientConfiguration(companyName: string): Promise<ClientConfiguration | null> {
+    return this.track('findClientConfiguration', async () => {
+      if (!companyName.trim()) return null;
+      const response = await this.send<ClientConfigurationsResponse>('findClientConfiguration', {
+        method: 'GET',
+        path: '/v1/client-configurations',
+        query: { companyName: companyName.trim() }
+      });
+      return response.Configurations[0] ?? null;
+    });
+  }
+
+  /**
+   * Create clients one after another. A failed client is reported in errors
+   * and its result, and does not stop the rest.
+   */
+  async bulkCreateClients(clients: NewClient[], options?: RequestOptions): Promise<{success: boolean; createdClients?: number[]; errors?: string[]; results: BulkClientResult[]}> {
+    return this.track('bulkCreateClients', async () => {
+      const results: BulkClientResult[] = [];
+
+      for (const client of clients) {
+        try {
+          const response = await this.createClient(client, options);
+          results.push(response.success && response.ClientUID
+            ? { companyName: client.companyName, clientUID: response.ClientUID }
+            : { companyName: client.companyName, error: response.error || 'Client was not created' });
+        } catch (error) {
+          results.push({ companyName: client.companyName, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      const createdClients = results.flatMap(result => (result.clientUID !== undefined ? [result.clientUID] : []));
+      const errors = results.flatMap(result => (result.error ? [`${result.companyName || 'Unnamed client'}: ${result.error}`] : []));
+      return {
+        success: errors.length === 0,
+        createdClients,
+        ...(errors.length > 0 ? { errors } : {}),
+        results
+      };
+    });
   }
 }
 
-export const leadexecApi = new LeadExecAPI();
\ No newline at end of file
+export const leadexecApi = new LeadExecAPI();
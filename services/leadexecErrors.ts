@@ -0,0 +1,90 @@
+// Errors LeadExecAPI calls fail with, by what the caller can do about them
+import { LeadExecHttpError, LeadExecNetworkError } from './leadexecTransport';
+import { LeadExecTimeoutError } from './leadexecRetry';
+
+/** Any failed LeadExec call; status is the HTTP status when the server answered */
+export class LeadExecApiError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'LeadExecApiError';
+  }
+}
+
+/** The request was refused as invalid; fieldErrors holds a message per field name */
+export class ValidationError extends LeadExecApiError {
+  constructor(message: string, public readonly fieldErrors: Record<string, string> = {}, status = 400) {
+    super(message, status);
+    this.name = 'ValidationError';
+  }
+}
+
+/** The API key is missing, invalid or not allowed to do this */
+export class AuthError extends LeadExecApiError {
+  constructor(message: string, status = 401) {
+    super(message, status);
+    this.name = 'AuthError';
+  }
+}
+
+/** Too many requests, still refused after the retries; retryAfterMs is the server's hint */
+export class RateLimitError extends LeadExecApiError {
+  constructor(message: string, public readonly retryAfterMs?: number) {
+    super(message, 429);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** A unique value is taken; field is the client field name, e.g. username or email */
+export class ConflictError extends LeadExecApiError {
+  constructor(message: string, public readonly field?: string, public readonly value?: string) {
+    super(message, 409);
+    this.name = 'ConflictError';
+  }
+}
+
+/** The API could not be reached or did not answer in time */
+export class NetworkError extends LeadExecApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+interface ErrorBody {
+  error?: string | null;
+  fieldErrors?: Record<string, string>;
+  field?: string;
+  value?: string;
+}
+
+/**
+ * The typed error for a failure of the transport or retry layer. Errors
+ * that are already typed, and ones that did not come from the API, are
+ * returned unchanged.
+ */
+export function toLeadExecError(error: unknown): unknown {
+  if (error instanceof LeadExecApiError) return error;
+
+  if (error instanceof LeadExecHttpError) {
+    const body = (typeof error.body === 'object' && error.body ? error.body : {}) as ErrorBody;
+    const message = body.error || error.message;
+    switch (error.status) {
+      case 400:
+      case 422:
+        return new ValidationError(message, body.fieldErrors, error.status);
+      case 401:
+      case 403:
+        return new AuthError(message, error.status);
+      case 409:
+        return new ConflictError(message, body.field, body.value);
+      case 429:
+        return new RateLimitError(message, error.retryAfterMs);
+      default:
+        return new LeadExecApiError(message, error.status);
+    }
+  }
+
+  if (error instanceof LeadExecTimeoutError) return new NetworkError(error.message);
+  if (error instanceof LeadExecNetworkError) return new NetworkError(`Could not reach the LeadExec API: ${error.message}`);
+  return error;
+}
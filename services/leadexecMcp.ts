@@ -0,0 +1,142 @@
+// Request and response shapes of the LeadExec (MCP) API
+
+export interface MCPClientInfo {
+  ClientUID: number;
+  DateAdded?: string;
+  Status?: string;
+  UserUID?: number;
+  TimeOffset?: number;
+  TimeZoneName?: string;
+  Notes?: string;
+  ResellerUID?: number;
+  GroupUID?: number;
+  Username: string;
+  Password: string;
+  OverrideReassign?: boolean;
+  DeliveryAccountAutomationType?: string;
+}
+
+export interface MCPFieldData {
+  ClientFieldUID: number;
+  Value: string;
+}
+
+export interface MCPClientRequest {
+  Info: MCPClientInfo;
+  FieldData: MCPFieldData[];
+}
+
+/** Changes to a stored client: only the Info properties and fields sent are changed */
+export interface MCPClientUpdateRequest {
+  Info: Pick<MCPClientInfo, 'ClientUID'> & Partial<MCPClientInfo>;
+  FieldData: MCPFieldData[];
+}
+
+export interface MCPClientResponse {
+  success: boolean;
+  ClientUID?: number;
+  error?: string | null;
+}
+
+/** A stored client, as returned by the client read routes */
+export interface MCPClient {
+  Info: MCPClientInfo;
+  FieldData: MCPFieldData[];
+}
+
+export interface MCPClientListResponse {
+  success: boolean;
+  Clients: MCPClient[];
+  /** Opaque cursor for the next page; null on the last page */
+  NextCursor: string | null;
+  /** Clients matching the filters, across all pages */
+  Total: number;
+}
+
+export interface MCPClientDetailResponse {
+  success: boolean;
+  Client: MCPClient;
+}
+
+export interface MCPDeleteResponse {
+  success: boolean;
+  error?: string | null;
+}
+
+export interface MCPDeliveryMethodRequest {
+  Type: 'email' | 'webhook' | 'ftp' | 'pingpost' | 'other';
+  Settings: Record<string, any>;
+}
+
+export interface MCPDeliveryMethodResponse {
+  success: boolean;
+  DeliveryMethodUID?: number;
+  error?: string | null;
+}
+
+export interface MCPDeliveryAccountRequest {
+  AccountName: string;
+  Limits: { Hourly?: number; Daily?: number; Weekly?: number; Monthly?: number };
+  Settings: Record<string, any>;
+}
+
+export interface MCPDeliveryAccountResponse {
+  success: boolean;
+  DeliveryAccountUID?: number;
+  error?: string | null;
+}
+
+/**
+ * Delivery and account settings of an existing client, used as the starting
+ * point for new clients set up the same way
+ */
+export interface ClientConfiguration {
+  clientUID: number;
+  companyName: string;
+  delivery: {
+    method: 'email' | 'webhook' | 'ftp' | 'pingpost';
+    webhook?: { url: string; method: 'POST' | 'PUT' };
+    /** Webhook field mapping, or excluded fields for email delivery */
+    customFieldMapping?: boolean;
+    excludedFields?: string;
+    emailTemplate?: 'generic' | 'custom';
+  };
+  /** Delivery window, e.g. "Mon-Fri 9AM-5PM EST"; deliver immediately when unset */
+  schedule?: string;
+  retry?: { attempts: number; intervalMinutes: number };
+  /** Account owner alerted about failed deliveries */
+  notificationEmail?: string;
+  /** Unset when the client has no delivery account */
+  deliveryAccount?: {
+    limits: { hourly?: number; daily: number; weekly?: number; monthly?: number };
+    exclusive: boolean;
+    useOrders: boolean;
+    revenue?: { minRevenue?: number; minProfitAmount?: number; minProfitPercent?: number };
+    criteria?: { states?: string; zips?: string; fields?: string };
+  };
+}
+
+export interface ClientConfigurationsResponse {
+  success: boolean;
+  /** Matches for the requested company name, best first */
+  Configurations: ClientConfiguration[];
+}
+
+export type MCPClientFieldType = 'text' | 'email' | 'phone' | 'number' | 'select' | 'textarea';
+
+/** A client field of the account; FieldData values refer to it by ClientFieldUID */
+export interface MCPClientFieldDefinition {
+  ClientFieldUID: number;
+  /** Stable key, e.g. companyName */
+  Name: string;
+  Label: string;
+  Type: MCPClientFieldType;
+  Required: boolean;
+  /** Allowed values of select fields */
+  Options?: string[];
+}
+
+export interface MCPClientFieldsResponse {
+  success: boolean;
+  Fields: MCPClientFieldDefinition[];
+}
@@ -0,0 +1,490 @@
+// In-process stand-in for the LeadExec API with seeded, stateful data
+import { systemClock, type Clock } from './clock';
+import { buildPath, LeadExecHttpError, type LeadExecRequest, type LeadExecResponse, type LeadExecTransport } from './leadexecTransport';
+import { fromDeliverySettings, validateDeliveryConfig } from './deliveryConfig';
+import {
+  type ClientConfiguration,
+  type ClientConfigurationsResponse,
+  type MCPClient,
+  type MCPClientDetailResponse,
+  type MCPClientFieldDefinition,
+  type MCPClientFieldsResponse,
+  type MCPClientInfo,
+  type MCPClientListResponse,
+  type MCPClientRequest,
+  type MCPClientResponse,
+  type MCPDeleteResponse,
+  type MCPDeliveryAccountRequest,
+  type MCPDeliveryAccountResponse,
+  type MCPDeliveryMethodRequest,
+  type MCPDeliveryMethodResponse,
+  type MCPFieldData
+} from './leadexecMcp';
+
+type MockClient = MCPClient;
+
+interface MockDeliveryMethod extends MCPDeliveryMethodRequest {
+  DeliveryMethodUID: number;
+  ClientUID: number;
+}
+
+interface MockDeliveryAccount extends MCPDeliveryAccountRequest {
+  DeliveryAccountUID: number;
+  ClientUID: number;
+}
+
+export interface MockSeedClient {
+  clientUID: number;
+  companyName: string;
+  email: string;
+  status: string;
+  dateAdded: string;
+}
+
+export interface MockServerSeed {
+  clients: MockSeedClient[];
+  /** Delivery setups of seeded clients, by clientUID */
+  configurations: ClientConfiguration[];
+  /** Client fields of the account; seeded clients fill companyName and email */
+  clientFields: MCPClientFieldDefinition[];
+  /** First id handed out to new clients; delivery methods and accounts count from their own ranges */
+  firstClientUID: number;
+}
+
+// The standard client fields plus one the account added itself
+const SEED_CLIENT_FIELDS: MCPClientFieldDefinition[] = [
+  { ClientFieldUID: 1, Name: 'companyName', Label: 'Company Name', Type: 'text', Required: true },
+  { ClientFieldUID: 2, Name: 'email', Label: 'Email Address', Type: 'email', Required: true },
+  { ClientFieldUID: 3, Name: 'phone', Label: 'Phone', Type: 'phone', Required: false },
+  { ClientFieldUID: 4, Name: 'firstName', Label: 'First Name', Type: 'text', Required: false },
+  { ClientFieldUID: 5, Name: 'lastName', Label: 'Last Name', Type: 'text', Required: false },
+  {
+    ClientFieldUID: 12,
+    Name: 'industry',
+    Label: 'Industry',
+    Type: 'select',
+    Required: false,
+    Options: ['Insurance', 'Home Services', 'Solar', 'Mortgage', 'Other']
+  }
+];
+
+// Existing clients the mock server starts with
+const SEED_CONFIGURATIONS: ClientConfiguration[] = [
+  {
+    clientUID: 1042,
+    companyName: 'TechCorp',
+    delivery: {
+      method: 'webhook',
+      webhook: { url: 'https://hooks.techcorp.com/leads', method: 'POST' },
+      customFieldMapping: false
+    },
+    schedule: 'Mon-Fri 8AM-6PM EST',
+    retry: { attempts: 3, intervalMinutes: 15 },
+    notificationEmail: 'leads-ops@leadexec.com',
+    deliveryAccount: {
+      limits: { daily: 50, hourly: 10 },
+      exclusive: true,
+      useOrders: false,
+      criteria: { states: 'CA, NY, TX' }
+    }
+  },
+  {
+    clientUID: 1077,
+    companyName: 'Summit Home Services',
+    delivery: { method: 'email', excludedFields: 'ssn, internal_notes', emailTemplate: 'generic' },
+    retry: { attempts: 2, intervalMinutes: 30 },
+    deliveryAccount: {
+      limits: { daily: 25 },
+      exclusive: false,
+      useOrders: true,
+      revenue: { minRevenue: 20, minProfitPercent: 30 }
+    }
+  },
+  {
+    clientUID: 1103,
+    companyName: 'Brightline Insurance',
+    delivery: {
+      method: 'webhook',
+      webhook: { url: 'https://api.brightline.io/v2/leads', method: 'PUT' },
+      customFieldMapping: true
+    },
+    notificationEmail: 'integrations@leadexec.com'
+  }
+];
+
+// Enough clients to page through; the first three have delivery setups
+const SEED_CLIENTS: MockSeedClient[] = [
+  { clientUID: 1042, companyName: 'TechCorp', email: 'ops@techcorp.com', status: 'Active', dateAdded: '2024-03-11T14:02:00Z' },
+  { clientUID: 1077, companyName: 'Summit Home Services', email: 'leads@summithomeservices.com', status: 'Active', dateAdded: '2024-05-02T09:30:00Z' },
+  { clientUID: 1103, companyName: 'Brightline Insurance', email: 'partners@brightline.io', status: 'Active', dateAdded: '2024-06-19T16:45:00Z' },
+  { clientUID: 1110, companyName: 'Apex Solar', email: 'sales@apexsolar.com', status: 'Active', dateAdded: '2024-07-01T10:00:00Z' },
+  { clientUID: 1118, companyName: 'Harbor Mortgage Group', email: 'leads@harbormortgage.com', status: 'Inactive', dateAdded: '2024-07-22T13:15:00Z' },
+  { clientUID: 1125, companyName: 'Evergreen Roofing', email: 'office@evergreenroofing.com', status: 'Active', dateAdded: '2024-08-05T08:40:00Z' },
+  { clientUID: 1131, companyName: 'Northwind Auto Insurance', email: 'intake@northwindauto.com', status: 'New', dateAdded: '2024-08-28T15:20:00Z' },
+  { clientUID: 1139, companyName: 'Clearwater Plumbing', email: 'dispatch@clearwaterplumbing.com', status: 'Active', dateAdded: '2024-09-10T11:05:00Z' },
+  { clientUID: 1144, companyName: 'Keystone Home Warranty', email: 'partners@keystonewarranty.com', status: 'Inactive', dateAdded: '2024-10-02T09:50:00Z' },
+  { clientUID: 1152, companyName: 'Lumen Energy', email: 'growth@lumenenergy.io', status: 'Active', dateAdded: '2024-10-24T17:35:00Z' },
+  { clientUID: 1160, companyName: 'Pioneer Life & Annuity', email: 'leads@pioneerlife.com', status: 'New', dateAdded: '2024-11-13T12:10:00Z' },
+  { clientUID: 1167, companyName: 'Redwood Windows & Doors', email: 'sales@redwoodwindows.com', status: 'Active', dateAdded: '2024-12-03T14:25:00Z' }
+];
+
+export const DEFAULT_MOCK_SEED: MockServerSeed = {
+  clients: SEED_CLIENTS,
+  configurations: SEED_CONFIGURATIONS,
+  clientFields: SEED_CLIENT_FIELDS,
+  firstClientUID: 2001
+};
+
+export interface MockServerOptions {
+  /** Simulated round trip per request */
+  latencyMs?: number;
+  clock?: Clock;
+}
+
+type RouteHandler = (params: string[], request: LeadExecRequest) => unknown;
+
+const STATUS_TEXT: Record<number, string> = {
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout'
+};
+
+// Status the live API answers a handled request with: creates are 201 and
+// deletes 204 No Content
+function successStatus({ method, body }: LeadExecRequest): number {
+  if (method === 'DELETE') return 204;
+  if (method === 'POST') return 201;
+  if (method === 'PATCH' && !(body as MCPClientRequest | undefined)?.Info?.ClientUID) return 201;
+  return 200;
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const DELIVERY_TYPES: MCPDeliveryMethodRequest['Type'][] = ['email', 'webhook', 'ftp', 'pingpost', 'other'];
+
+/**
+ * Serves the LeadExec API routes from memory. Data starts from a seed and
+ * changes with every request, so created clients can be looked up and
+ * duplicate usernames are refused, like the live API. Bad requests throw
+ * LeadExecHttpError with the status the live API would answer with.
+ * Successful requests get the status the live API answers with. Requests
+ * with an idempotency key that was handled before get the first response
+ * again, marked as replayed, and requests aborted during the simulated latency never
+ * arrive.
+ */
+export class MockLeadExecServer implements LeadExecTransport {
+  readonly mode = 'mock';
+  readonly account = 'mock';
+
+  private clients = new Map<number, MockClient>();
+  private deliveryMethods = new Map<number, MockDeliveryMethod>();
+  private deliveryAccounts = new Map<number, MockDeliveryAccount>();
+  private configurations: ClientConfiguration[] = [];
+  private nextClientUID = 0;
+  private nextDeliveryMethodUID = 0;
+  private nextDeliveryAccountUID = 0;
+  // Responses by method, path and idempotency key
+  private handled = new Map<string, LeadExecResponse<unknown>>();
+  // Statuses to answer the next requests with
+  private failures: number[] = [];
+
+  private routes: Array<[LeadExecRequest['method'], RegExp, RouteHandler]> = [
+    ['GET', /^\/v1\/clients$/, (_, request) => this.listClients(request.query || {})],
+    ['GET', /^\/v1\/clients\/(\d+)$/, ([uid]) => this.getClient(Number(uid))],
+    ['DELETE', /^\/v1\/clients\/(\d+)$/, ([uid]) => this.deleteClient(Number(uid))],
+    ['PATCH', /^\/v1\/clients$/, (_, request) => this.saveClient(request.body as MCPClientRequest)],
+    ['POST', /^\/v1\/clients\/(\d+)\/delivery-methods$/, ([uid], request) =>
+      this.addDeliveryMethod(Number(uid), request.body as MCPDeliveryMethodRequest)],
+    ['DELETE', /^\/v1\/clients\/(\d+)\/delivery-methods\/(\d+)$/, ([uid, methodUID]) =>
+      this.deleteDeliveryMethod(Number(uid), Number(methodUID))],
+    ['POST', /^\/v1\/clients\/(\d+)\/delivery-accounts$/, ([uid], request) =>
+      this.addDeliveryAccount(Number(uid), request.body as MCPDeliveryAccountRequest)],
+    ['DELETE', /^\/v1\/clients\/(\d+)\/delivery-accounts\/(\d+)$/, ([uid, accountUID]) =>
+      this.deleteDeliveryAccount(Number(uid), Number(accountUID))],
+    ['GET', /^\/v1\/client-fields$/, () => this.listClientFields()],
+    ['GET', /^\/v1\/client-configurations$/, (_, request) =>
+      this.findConfigurations(String(request.query?.companyName ?? ''))]
+  ];
+
+  constructor(private seed: MockServerSeed = DEFAULT_MOCK_SEED, private options: MockServerOptions = {}) {
+    this.reset();
+  }
+
+  /** Drop everything created since the seed */
+  reset(): void {
+    const { clients, configurations, firstClientUID } = this.seed;
+    this.configurations = clone(configurations);
+    this.clients = new Map(clients.map(client => [client.clientUID, {
+      Info: {
+        ClientUID: client.clientUID,
+        Status: client.status,
+        Username: toUsername(client.companyName),
+        Password: '',
+        DateAdded: client.dateAdded
+      },
+      FieldData: this.toFieldData({ companyName: client.companyName, email: client.email })
+    }]));
+    this.deliveryMethods.clear();
+    this.deliveryAccounts.clear();
+    this.handled.clear();
+    this.failures = [];
+    this.nextClientUID = firstClientUID;
+    this.nextDeliveryMethodUID = firstClientUID * 10;
+    this.nextDeliveryAccountUID = firstClientUID * 20;
+  }
+
+  /** Answer the next count requests with status, e.g. to try out retries */
+  failNext(count: number, status = 503): void {
+    this.failures.push(...Array(count).fill(status));
+  }
+
+  async send<T>(request: LeadExecRequest): Promise<LeadExecResponse<T>> {
+    const { latencyMs = 400, clock = systemClock } = this.options;
+    if (latencyMs > 0) await new Promise<void>(resolve => clock.setTimeout(resolve, latencyMs));
+    if (request.signal?.aborted) throw new DOMException('The request was aborted', 'AbortError');
+
+    const failure = this.failures.shift();
+    if (failure) {
+      throw new LeadExecHttpError(failure, STATUS_TEXT[failure] || 'Error', { success: false, error: 'Simulated failure' });
+    }
+
+    const replayKey = request.idempotencyKey && `${request.method} ${request.path} ${request.idempotencyKey}`;
+    const replay = replayKey && this.handled.get(replayKey);
+    if (replay) return { ...clone(replay), replayed: true } as LeadExecResponse<T>;
+
+    // Requests and responses are copied, as if they had crossed the network
+    const received: LeadExecRequest = { ...request, body: clone(request.body), signal: undefined };
+    for (const [method, pattern, handle] of this.routes) {
+      const match = request.path.match(pattern);
+      if (match && method === request.method) {
+        const status = successStatus(received);
+        const body = handle(match.slice(1), received);
+        const response = { status, body: status === 204 ? undefined : body };
+        if (replayKey) this.handled.set(replayKey, clone(response));
+        return clone(response) as LeadExecResponse<T>;
+      }
+    }
+    throw new LeadExecHttpError(404, 'Not Found', { success: false, error: `No route for ${request.method} ${buildPath(request)}` });
+  }
+
+  /**
+   * Clients matching search (company name, email or username) and status,
+   * sorted and cut into pages. The cursor is the offset of the next page.
+   */
+  private listClients(query: Record<string, string | number | undefined>): MCPClientListResponse {
+    const search = String(query.search ?? '').trim().toLowerCase();
+    const status = String(query.status ?? '').toLowerCase();
+    const sort = String(query.sort ?? 'companyName');
+    const order = query.order === 'desc' ? -1 : 1;
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(query.limit) || DEFAULT_PAGE_SIZE));
+    const offset = query.cursor ? decodeCursor(String(query.cursor)) : 0;
+    if (!SORT_KEYS.includes(sort)) throw badRequest(`Cannot sort by "${sort}"`);
+
+    const sortValue = (client: MockClient) => sort === 'dateAdded'
+      ? client.Info.DateAdded || ''
+      : sort === 'status' ? client.Info.Status || '' : this.fieldValue(client, 'companyName').toLowerCase();
+
+    const matches = [...this.clients.values()]
+      .filter(client => !status || client.Info.Status?.toLowerCase() === status)
+      .filter(client => !search || [
+        this.fieldValue(client, 'companyName'),
+        this.fieldValue(client, 'email'),
+        client.Info.Username
+      ].some(value => value.toLowerCase().includes(search)))
+      .sort((a, b) => sortValue(a).localeCompare(sortValue(b)) * order || a.Info.ClientUID - b.Info.ClientUID);
+
+    const page = matches.slice(offset, offset + limit);
+    return {
+      success: true,
+      Clients: page.map(withoutPassword),
+      NextCursor: offset + limit < matches.length ? encodeCursor(offset + limit) : null,
+      Total: matches.length
+    };
+  }
+
+  private getClient(clientUID: number): MCPClientDetailResponse {
+    this.requireClient(clientUID);
+    return { success: true, Client: withoutPassword(this.clients.get(clientUID)!) };
+  }
+
+  // Deleting a client removes its delivery methods and accounts with it
+  private deleteClient(clientUID: number): MCPDeleteResponse {
+    this.requireClient(clientUID);
+    this.clients.delete(clientUID);
+    this.deliveryMethods.forEach((method, uid) => {
+      if (method.ClientUID === clientUID) this.deliveryMethods.delete(uid);
+    });
+    this.deliveryAccounts.forEach((account, uid) => {
+      if (account.ClientUID === clientUID) this.deliveryAccounts.delete(uid);
+    });
+    this.configurations = this.configurations.filter(config => config.clientUID !== clientUID);
+    return { success: true };
+  }
+
+  private saveClient(request: MCPClientRequest): MCPClientResponse {
+    if (!request?.Info || !Array.isArray(request.FieldData)) {
+      throw badRequest('Info and FieldData are required');
+    }
+    const { Info, FieldData } = request;
+
+    if (Info.ClientUID) {
+      const existing = this.clients.get(Info.ClientUID);
+      if (!existing) throw notFound(`Client ${Info.ClientUID} does not exist`);
+      if (Info.Status !== undefined && !CLIENT_STATUSES.includes(Info.Status)) {
+        throw badRequest(`Status must be one of ${CLIENT_STATUSES.join(', ')}`, { status: 'Unknown status' });
+      }
+      const fields = new Map(existing.FieldData.map(field => [field.ClientFieldUID, field]));
+      FieldData.forEach(field => fields.set(field.ClientFieldUID, field));
+      this.clients.set(Info.ClientUID, { Info: { ...existing.Info, ...Info }, FieldData: [...fields.values()] });
+      return { success: true, ClientUID: Info.ClientUID };
+    }
+
+    const unknown = FieldData.find(field => !this.seed.clientFields.some(def => def.ClientFieldUID === field.ClientFieldUID));
+    if (unknown) throw badRequest(`Unknown client field ${unknown.ClientFieldUID}`);
+
+    const values = new Map(FieldData.map(field => [field.ClientFieldUID, field.Value?.trim() ?? '']));
+    const fieldErrors: Record<string, string> = {};
+    this.seed.clientFields.forEach(def => {
+      const value = values.get(def.ClientFieldUID);
+      if (def.Required && !value) fieldErrors[def.Name] = `${def.Label} is required`;
+      else if (value && def.Type === 'email' && !EMAIL.test(value)) fieldErrors[def.Name] = `${def.Label} is not a valid email address`;
+    });
+    if (!Info.Username?.trim()) fieldErrors.username = 'Username is required';
+    if (Object.keys(fieldErrors).length > 0) throw badRequest(Object.values(fieldErrors).join('; '), fieldErrors);
+
+    const taken = [...this.clients.values()].some(client => client.Info.Username.toLowerCase() === Info.Username.toLowerCase());
+    if (taken) throw conflict(`Username "${Info.Username}" is already taken`, 'username', Info.Username);
+    const email = this.seed.clientFields.find(def => def.Name === 'email');
+    const emailValue = email ? values.get(email.ClientFieldUID)?.toLowerCase() : undefined;
+    if (email && emailValue) {
+      const emailTaken = [...this.clients.values()].some(client =>
+        client.FieldData.some(field => field.ClientFieldUID === email.ClientFieldUID && field.Value.toLowerCase() === emailValue)
+      );
+      if (emailTaken) throw conflict(`A client with email ${emailValue} already exists`, 'email', emailValue);
+    }
+
+    const ClientUID = this.nextClientUID++;
+    this.clients.set(ClientUID, { Info: { ...Info, ClientUID }, FieldData });
+    return { success: true, ClientUID };
+  }
+
+  private addDeliveryMethod(clientUID: number, request: MCPDeliveryMethodRequest): MCPDeliveryMethodResponse {
+    this.requireClient(clientUID);
+    if (!DELIVERY_TYPES.includes(request?.Type)) throw badRequest(`Unknown delivery type "${request?.Type}"`);
+    const fieldErrors = validateDeliveryConfig(fromDeliverySettings(request.Type, request.Settings || {}));
+    if (Object.keys(fieldErrors).length > 0) throw badRequest(Object.values(fieldErrors).join('; '), fieldErrors);
+
+    const DeliveryMethodUID = this.nextDeliveryMethodUID++;
+    this.deliveryMethods.set(DeliveryMethodUID, { ...request, DeliveryMethodUID, ClientUID: clientUID });
+    return { success: true, DeliveryMethodUID };
+  }
+
+  private deleteDeliveryMethod(clientUID: number, deliveryMethodUID: number): MCPDeleteResponse {
+    this.requireClient(clientUID);
+    const method = this.deliveryMethods.get(deliveryMethodUID);
+    if (!method || method.ClientUID !== clientUID) {
+      throw notFound(`Delivery method ${deliveryMethodUID} does not exist for client ${clientUID}`);
+    }
+    this.deliveryMethods.delete(deliveryMethodUID);
+    return { success: true };
+  }
+
+  private addDeliveryAccount(clientUID: number, request: MCPDeliveryAccountRequest): MCPDeliveryAccountResponse {
+    this.requireClient(clientUID);
+    if (!request?.AccountName?.trim()) throw badRequest('AccountName is required');
+    const negative = Object.entries(request.Limits || {}).find(([, limit]) => limit !== undefined && limit < 0);
+    if (negative) throw badRequest(`${negative[0]} limit cannot be negative`);
+
+    const DeliveryAccountUID = this.nextDeliveryAccountUID++;
+    this.deliveryAccounts.set(DeliveryAccountUID, { ...request, DeliveryAccountUID, ClientUID: clientUID });
+    return { success: true, DeliveryAccountUID };
+  }
+
+  private deleteDeliveryAccount(clientUID: number, deliveryAccountUID: number): MCPDeleteResponse {
+    this.requireClient(clientUID);
+    const account = this.deliveryAccounts.get(deliveryAccountUID);
+    if (!account || account.ClientUID !== clientUID) {
+      throw notFound(`Delivery account ${deliveryAccountUID} does not exist for client ${clientUID}`);
+    }
+    this.deliveryAccounts.delete(deliveryAccountUID);
+    return { success: true };
+  }
+
+  private listClientFields(): MCPClientFieldsResponse {
+    return { success: true, Fields: this.seed.clientFields };
+  }
+
+  // Exact name matches first, then partial ones
+  private findConfigurations(companyName: string): ClientConfigurationsResponse {
+    const query = companyName.trim().toLowerCase();
+    if (!query) return { success: true, Configurations: [] };
+    const exact = this.configurations.filter(config => config.companyName.toLowerCase() === query);
+    const partial = this.configurations.filter(config =>
+      config.companyName.toLowerCase() !== query && config.companyName.toLowerCase().includes(query)
+    );
+    return { success: true, Configurations: [...exact, ...partial] };
+  }
+
+  private fieldValue(client: MockClient, name: string): string {
+    const field = this.seed.clientFields.find(def => def.Name === name);
+    return client.FieldData.find(data => data.ClientFieldUID === field?.ClientFieldUID)?.Value ?? '';
+  }
+
+  // FieldData for values keyed by field name; names the account lacks are dropped
+  private toFieldData(values: Record<string, string | undefined>): MCPFieldData[] {
+    return this.seed.clientFields
+      .filter(def => values[def.Name])
+      .map(def => ({ ClientFieldUID: def.ClientFieldUID, Value: values[def.Name]! }));
+  }
+
+  private requireClient(clientUID: number): void {
+    if (!this.clients.has(clientUID)) throw notFound(`Client ${clientUID} does not exist`);
+  }
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const SORT_KEYS = ['companyName', 'dateAdded', 'status'];
+const CLIENT_STATUSES = ['New', 'Active', 'Inactive'];
+
+function encodeCursor(offset: number): string {
+  return btoa(`offset:${offset}`);
+}
+
+function decodeCursor(cursor: string): number {
+  let offset = NaN;
+  try {
+    offset = Number(atob(cursor).replace(/^offset:/, ''));
+  } catch {
+    // Not base64; rejected below
+  }
+  if (!Number.isInteger(offset) || offset < 0) throw badRequest('Invalid cursor');
+  return offset;
+}
+
+// Stored passwords are never sent back
+function withoutPassword(client: MockClient): MockClient {
+  return { ...client, Info: { ...client.Info, Password: '' } };
+}
+
+function toUsername(companyName: string): string {
+  return companyName.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+function badRequest(error: string, fieldErrors?: Record<string, string>): LeadExecHttpError {
+  return new LeadExecHttpError(400, 'Bad Request', { success: false, error, ...(fieldErrors ? { fieldErrors } : {}) });
+}
+
+function conflict(error: string, field: string, value: string): LeadExecHttpError {
+  return new LeadExecHttpError(409, 'Conflict', { success: false, error, field, value });
+}
+
+function notFound(error: string): LeadExecHttpError {
+  return new LeadExecHttpError(404, 'Not Found', { success: false, error });
+}
@@ -0,0 +1,63 @@
+// When and how often LeadExecAPI tries a request again
+import { LeadExecHttpError, LeadExecNetworkError } from './leadexecTransport';
+
+export interface RetryPolicy {
+  /** Attempts after the first; 0 turns retrying off */
+  retries: number;
+  /** Delay before the first retry, doubled for each one after it */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Each attempt is abandoned after this long */
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: 15000
+};
+
+/** Reported before each retry */
+export interface RetryAttempt {
+  /** The attempt about to be made; the first retry is attempt 2 */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: Error;
+}
+
+/** An attempt got no answer within the policy's timeoutMs */
+export class LeadExecTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`API request timed out after ${timeoutMs}ms`);
+    this.name = 'LeadExecTimeoutError';
+  }
+}
+
+/**
+ * Whether another attempt could succeed: rate limiting (429), server errors
+ * (5xx), timeouts and requests that never reached the server. Other
+ * responses would only be repeated.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof LeadExecHttpError) return error.status === 429 || error.status >= 500;
+  return error instanceof LeadExecTimeoutError || error instanceof LeadExecNetworkError;
+}
+
+/**
+ * Exponential backoff with equal jitter: half the step is fixed and half
+ * random, so clients that failed together do not retry together. A
+ * Retry-After from the server is the minimum.
+ */
+export function retryDelay(policy: RetryPolicy, retry: number, error: unknown, random: () => number = Math.random): number {
+  const step = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  const delay = Math.round(step / 2 + random() * (step / 2));
+  const retryAfterMs = error instanceof LeadExecHttpError ? error.retryAfterMs : undefined;
+  return retryAfterMs !== undefined ? Math.max(delay, retryAfterMs) : delay;
+}
+
+/** Key that identifies one logical mutating call across its retries */
+export function createIdempotencyKey(): string {
+  return globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
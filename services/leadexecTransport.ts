@@ -0,0 +1,139 @@
+// How LeadExecAPI requests reach a server: over HTTP, or to the in-process mock
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface LeadExecRequest {
+  method: HttpMethod;
+  /** Path below the API root, e.g. /v1/clients */
+  path: string;
+  /** Sent as JSON */
+  body?: unknown;
+  /** Appended as a query string; undefined values are left out */
+  query?: Record<string, string | number | undefined>;
+  /**
+   * Sent as the Idempotency-Key header. The server answers a key it has
+   * already handled with the first response instead of acting again.
+   */
+  idempotencyKey?: string;
+  /** Aborts the request, e.g. when it times out */
+  signal?: AbortSignal;
+}
+
+export type TransportMode = 'live' | 'mock';
+
+/** A 2xx answer. body is undefined when there was none, e.g. 204 No Content */
+export interface LeadExecResponse<T> {
+  status: number;
+  body: T;
+  /** Answered with the response to an earlier request with the same idempotency key */
+  replayed?: boolean;
+}
+
+export interface LeadExecTransport {
+  readonly mode: TransportMode;
+  /** The account requests act for; data cached per account is keyed by it */
+  readonly account: string;
+  send<T>(request: LeadExecRequest): Promise<LeadExecResponse<T>>;
+}
+
+/**
+ * The server answered with a non-2xx status. body is the parsed response,
+ * when there was one; retryAfterMs comes from a Retry-After header.
+ */
+export class LeadExecHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly statusText: string,
+    public readonly body?: unknown,
+    public readonly retryAfterMs?: number
+  ) {
+    const detail = (body as { error?: unknown } | undefined)?.error;
+    super(`API request failed: ${status} ${statusText}${typeof detail === 'string' ? ` - ${detail}` : ''}`);
+    this.name = 'LeadExecHttpError';
+  }
+}
+
+/**
+ * The request never got an answer because fetch failed, e.g. the server is
+ * unreachable or the connection dropped. cause is what fetch threw.
+ */
+export class LeadExecNetworkError extends Error {
+  constructor(public readonly cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'LeadExecNetworkError';
+  }
+}
+
+/** Path with its query string */
+export function buildPath({ path, query }: Pick<LeadExecRequest, 'path' | 'query'>): string {
+  const params = new URLSearchParams();
+  Object.entries(query || {}).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Talks to the LeadExec API with bearer token authentication
+ */
+export class HttpTransport implements LeadExecTransport {
+  readonly mode = 'live';
+
+  constructor(
+    readonly baseURL: string,
+    private bearerToken: string,
+    private fetchImpl: typeof fetch = (...args) => fetch(...args)
+  ) {}
+
+  get account(): string {
+    return `${this.baseURL.replace(/\/+$/, '')} ${this.bearerToken}`;
+  }
+
+  async send<T>(request: LeadExecRequest): Promise<LeadExecResponse<T>> {
+    let response: Response;
+    let text: string;
+    try {
+      response = await this.fetchImpl(`${this.baseURL.replace(/\/+$/, '')}${buildPath(request)}`, {
+        method: request.method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.bearerToken}`,
+          ...(request.idempotencyKey ? { 'Idempotency-Key': request.idempotencyKey } : {}),
+        },
+        body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+        signal: request.signal,
+      });
+      text = await response.text();
+    } catch (error) {
+      // An aborted request was abandoned on purpose, e.g. after a timeout
+      if (request.signal?.aborted) throw error;
+      throw new LeadExecNetworkError(error);
+    }
+
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = text;
+    }
+
+    if (!response.ok) {
+      throw new LeadExecHttpError(response.status, response.statusText, body, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    return {
+      status: response.status,
+      body: body as T,
+      ...(response.headers.get('Idempotent-Replayed') === 'true' ? { replayed: true } : {})
+    };
+  }
+}
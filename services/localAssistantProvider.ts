@@ -0,0 +1,677 @@
+// Offline, rule-based assistant that reproduces the built-in conversations
+import type { SimplifiedSetupData, StoredMessage } from '../components/chat-types';
+import { HELP_SOURCES_BY_CATEGORY, TOOL_NAMES } from '../components/chat-constants';
+import type { AssistantProvider, AssistantReply, AssistantRequest, AssistantResponse } from './assistantProvider';
+import { HELP_INTENT, intentRouter, type IntentRouter } from './intentRouter';
+import { clientDetailsExtractor, type ClientDetailsExtractor, type ExtractedClientDetails } from './clientDetailsExtractor';
+import { leadexecApi, type ClientConfiguration, type LeadExecAPI } from './leadexecApi';
+import { clientSetupDefaults } from '../components/flows/client-setup';
+
+type ReplyAction = NonNullable<StoredMessage['suggestedActions']>[number];
+
+export const SIMPLIFIED_SETUP_FLOW = 'create-client-simplified';
+
+const LEAD_LIMIT_PROMPT = 'Now let\'s configure lead limits. How many leads per day should this client receive? (Type a number, e.g., 50)';
+
+const DELIVERY_PROMPT = 'How would you like leads delivered to this client?';
+
+const DELIVERY_ALIASES: Record<string, string> = {
+  'email': 'email',
+  'email delivery': 'email',
+  'webhook': 'webhook',
+  'http': 'webhook',
+  'http webhook': 'webhook',
+  'ftp': 'ftp',
+  'ftp transfer': 'ftp',
+  'skip': 'skip',
+  'skip for now': 'skip',
+  'none': 'skip'
+};
+
+// Typing one of these while asked for credentials jumps ahead to delivery
+const DELIVERY_SHORTCUTS = ['email delivery', 'http webhook', 'webhook', 'ftp transfer', 'ftp', 'skip', 'skip for now'];
+
+const DELIVERY_LABELS: Record<string, string> = {
+  'email': 'Email delivery',
+  'webhook': 'HTTP webhook',
+  'ftp': 'FTP transfer',
+  'skip': 'Not configured'
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Detail each free-text question asks for; other details in the answer are extra
+const QUESTION_FIELDS: Record<string, keyof ExtractedClientDetails> = {
+  'companyName': 'companyName',
+  'email': 'email',
+  'lead-limit': 'dailyLeadLimit'
+};
+
+/** Button that answers the pending question with value */
+function answer(id: string, label: string, value = id): ReplyAction {
+  return { id, label, command: { type: 'answer', value, label } };
+}
+
+/** Put replies in front of the ones a follow-up step produces */
+function withLeadingReplies(replies: AssistantReply[], response: AssistantResponse): AssistantResponse {
+  return { ...response, replies: [...replies, ...response.replies] };
+}
+
+/** Extracted details as summary lines for the confirmation message */
+function describeDetails(details: ExtractedClientDetails): string {
+  const lines: string[] = [];
+  if (details.companyName) lines.push(`**Company:** ${details.companyName}`);
+  if (details.email) lines.push(`**Email:** ${details.email}`);
+  if (details.phone) lines.push(`**Phone:** ${details.phone}`);
+  if (details.deliveryMethod) lines.push(`**Delivery:** ${DELIVERY_LABELS[details.deliveryMethod]}`);
+  if (details.dailyLeadLimit) lines.push(`**Lead Limits:** ${details.dailyLeadLimit} leads/day`);
+  if (details.leadPrice) lines.push(`**Price per Lead:** $${details.leadPrice}`);
+  return lines.join('\n');
+}
+
+/** What a cloned client brings over, as summary lines */
+function describeTemplate(config: ClientConfiguration): string {
+  const { delivery, schedule, retry, notificationEmail, deliveryAccount } = config;
+  const lines = [`**Delivery:** ${delivery.webhook ? `${delivery.webhook.method} ${delivery.webhook.url}` : delivery.method}`];
+  lines.push(`**Schedule:** ${schedule || 'Deliver immediately'}`);
+  lines.push(`**Retry:** ${retry ? `${retry.attempts} attempts, every ${retry.intervalMinutes} min` : 'Single attempt'}`);
+  lines.push(`**Notifications:** ${notificationEmail || 'None'}`);
+  if (deliveryAccount) {
+    const limits = Object.entries(deliveryAccount.limits).map(([period, limit]) => `${limit} ${period}`).join(', ');
+    lines.push(`**Delivery Account:** ${limits}${deliveryAccount.exclusive ? ', exclusive' : ''}`);
+  } else {
+    lines.push('**Delivery Account:** None');
+  }
+  return lines.join('\n');
+}
+
+const DELIVERY_ACTIONS = [
+  answer('email', 'Email delivery'),
+  answer('webhook', 'HTTP webhook'),
+  answer('ftp', 'FTP transfer'),
+  answer('skip', 'Skip for now')
+];
+
+/**
+ * Deterministic AssistantProvider that runs entirely in the browser: free
+ * text is routed with the intent classifier and the conversational client
+ * setup is a fixed question sequence, skipping questions a message already
+ * answered. Generated passwords use the injected random source, so a seeded
+ * source makes whole conversations reproducible.
+ */
+export class LocalAssistantProvider implements AssistantProvider {
+  readonly id = 'local';
+
+  constructor(
+    private router: IntentRouter = intentRouter,
+    private random: () => number = Math.random,
+    private extractor: ClientDetailsExtractor = clientDetailsExtractor,
+    private clients: Pick<LeadExecAPI, 'findClientConfiguration'> = leadexecApi
+  ) {}
+
+  async respond({ input, flow }: AssistantRequest): Promise<AssistantResponse> {
+    if (flow.flowId === SIMPLIFIED_SETUP_FLOW) {
+      return this.handleSimplifiedResponse(input.trim(), flow.setup);
+    }
+    return this.routeRequest(input);
+  }
+
+  private generatePassword(username: string): string {
+    return `${username}#${Math.floor(this.random() * 10000)}!`;
+  }
+
+  /** Login credentials derived from the client email */
+  private generateCredentials(email: string): Pick<SimplifiedSetupData, 'username' | 'password'> {
+    const username = email.split('@')[0];
+    return { username, password: this.generatePassword(`${username.charAt(0).toUpperCase()}${username.slice(1)}`) };
+  }
+
+  /** Send free text to the matching tool, or help the user pick one */
+  private async routeRequest(input: string): Promise<AssistantResponse> {
+    const { decision, best, candidates } = this.router.classify(input);
+
+    const template = decision === 'route' && best?.intent === 'create-new-client'
+      ? this.extractor.extractTemplateReference(input)
+      : undefined;
+    if (template) {
+      return this.cloneClient(template);
+    }
+    if (decision === 'route' && best?.intent === 'create-new-client' && Object.keys(this.extractor.extract(input)).length > 0) {
+      // The request already names client details; the conversational setup picks them up
+      return { replies: [], handoff: { type: 'select-tool', toolId: SIMPLIFIED_SETUP_FLOW, input } };
+    }
+    if (decision === 'route' && best && best.intent !== HELP_INTENT) {
+      return { replies: [], handoff: { type: 'select-tool', toolId: best.intent } };
+    }
+    if (decision === 'route') {
+      return { replies: [], handoff: { type: 'show-help' } };
+    }
+
+    if (decision === 'clarify') {
+      // Several tools fit about equally well; let the user pick
+      const options = candidates
+        .filter(match => match.intent !== HELP_INTENT)
+        .slice(0, 3)
+        .map(match => ({ id: match.intent, label: TOOL_NAMES[match.intent] || match.intent }));
+
+      return {
+        replies: [{
+          content: 'I want to make sure I pick the right tool. Did you mean one of these?',
+          component: {
+            kind: 'actions',
+            props: {
+              size: 'sm',
+              buttons: [
+                ...options.map(option => ({ ...option, variant: 'outline' as const })),
+                { id: 'all-tools', label: 'View All Tools', icon: 'Wrench', variant: 'outline' }
+              ]
+            }
+          },
+          commands: Object.fromEntries(
+            [...options.map(option => option.id), 'all-tools'].map(toolId => [toolId, { type: 'select-tool', toolId }])
+          )
+        }]
+      };
+    }
+
+    return {
+      replies: [
+        {
+          content: 'I couldn\'t match that to one of my tools yet. I can help with creating clients, bulk uploads, and setting up delivery methods; try describing the task, or browse the tools and guides below.',
+          component: {
+            kind: 'actions',
+            props: {
+              size: 'sm',
+              buttons: [
+                { id: 'all-tools', label: 'View All Tools', icon: 'Wrench', variant: 'outline' }
+              ]
+            }
+          },
+          commands: {
+            'all-tools': { type: 'select-tool', toolId: 'all-tools' }
+          }
+        },
+        {
+          content: 'These guides cover the most common tasks:',
+          component: {
+            kind: 'help-sources',
+            props: {
+              results: HELP_SOURCES_BY_CATEGORY[best?.category || 'General'] || HELP_SOURCES_BY_CATEGORY['General']
+            }
+          },
+          delay: 300
+        }
+      ]
+    };
+  }
+
+  /** Start the guided setup with an existing client's settings as answers */
+  private async cloneClient(companyName: string): Promise<AssistantResponse> {
+    const config = await this.clients.findClientConfiguration(companyName);
+    if (!config) {
+      return {
+        replies: [{ content: `I couldn't find an existing client matching "${companyName}", so let's set this one up from scratch.` }],
+        handoff: { type: 'select-tool', toolId: 'create-new-client' }
+      };
+    }
+
+    return {
+      replies: [{
+        content: `I'll use **${config.companyName}** as the template. These settings are copied over:\n\n${describeTemplate(config)}\n\nI'll only ask for the new client's company name, email and credentials. Everything copied shows up in the review, where you can still change it.`
+      }],
+      handoff: { type: 'select-tool', toolId: 'create-new-client', prefill: clientSetupDefaults(config) }
+    };
+  }
+
+  /** One step of the conversational client setup; an empty state starts it */
+  private handleSimplifiedResponse(response: string, data: SimplifiedSetupData): AssistantResponse {
+    const question = data.currentQuestion;
+    const normalized = response.toLowerCase();
+
+    if ((question === 'email' || question === 'custom-credentials') && DELIVERY_SHORTCUTS.includes(normalized)) {
+      // The user is answering the delivery question early; fill in defaults
+      const email = data.email || `${data.companyName?.toLowerCase().replace(/\s+/g, '')}@example.com`;
+      const username = data.username || email.split('@')[0];
+      return this.handleSimplifiedResponse(response, {
+        ...data,
+        email,
+        username,
+        password: data.password || this.generatePassword(`${username.charAt(0).toUpperCase()}${username.slice(1)}`),
+        currentQuestion: 'delivery-choice'
+      });
+    }
+
+    // A message can answer several questions at once
+    if (!question || question in QUESTION_FIELDS) {
+      const prefilled = this.applyExtractedDetails(response, data);
+      if (prefilled) return prefilled;
+    }
+
+    if (!question) {
+      return {
+        setup: { currentQuestion: 'companyName' },
+        replies: [{
+          content: 'I\'ll help you quickly set up a new client. Let\'s start simple.\n\nWhat\'s the company name? (Type your answer in the chat)'
+        }]
+      };
+    }
+
+
+    switch (question) {
+      case 'companyName':
+        return withLeadingReplies(
+          [{ content: 'Great!', delay: 300 }],
+          this.askClientBasics({ ...data, companyName: response })
+        );
+
+      case 'email': {
+        if (!EMAIL_PATTERN.test(response)) {
+          return {
+            replies: [{ content: 'That doesn\'t look like a valid email address. Please provide a valid email address:' }]
+          };
+        }
+
+        return withLeadingReplies(
+          [{ content: 'Perfect!', delay: 300 }],
+          this.askClientBasics({ ...data, email: response, ...this.generateCredentials(response) })
+        );
+      }
+
+      case 'credentials':
+        if (response === 'use-generated') {
+          return this.askDelivery(data);
+        }
+        if (response === 'custom-username') {
+          return {
+            setup: { ...data, currentQuestion: 'custom-username-only' },
+            replies: [{ content: 'Please type the custom username:' }]
+          };
+        }
+        if (response === 'custom-both') {
+          return {
+            setup: { ...data, currentQuestion: 'custom-credentials' },
+            replies: [{ content: 'Please type the custom username and password separated by a space:' }]
+          };
+        }
+        return {
+          replies: [{ content: 'Please choose one of the options above: use the generated credentials, or provide your own.' }]
+        };
+
+      case 'custom-username-only':
+      case 'custom-credentials': {
+        const [first, second] = response.split(' ');
+        const username = question === 'custom-username-only' ? response : first || 'user';
+        const password = (question === 'custom-credentials' && second) || this.generatePassword(username);
+        return withLeadingReplies(
+          [{ content: `Perfect! I've set up the credentials:\n\n**Username:** ${username}\n**Password:** ${password}`, delay: 300 }],
+          this.askDelivery({ ...data, username, password }, 500)
+        );
+      }
+
+      case 'delivery':
+      case 'delivery-choice':
+        return this.handleDeliveryChoice(DELIVERY_ALIASES[normalized], data);
+
+      case 'webhook-url':
+        return {
+          setup: { ...data, webhookUrl: response, currentQuestion: 'webhook-auth-type' },
+          replies: [{
+            content: 'Got it! Does this webhook require authentication?',
+            suggestedActions: [
+              answer('no-auth', 'No authentication'),
+              answer('basic-auth', 'Basic authentication'),
+              answer('api-key', 'API key')
+            ],
+            delay: 300
+          }]
+        };
+
+      case 'webhook-auth-type':
+        if (response === 'basic-auth') {
+          return {
+            setup: { ...data, webhookAuthType: response, currentQuestion: 'webhook-basic-auth' },
+            replies: [{
+              content: 'Please provide the username and password for basic authentication (separated by a space):\n\nFormat: username password',
+              delay: 300
+            }]
+          };
+        }
+        if (response === 'api-key') {
+          return {
+            setup: { ...data, webhookAuthType: response, currentQuestion: 'webhook-api-key' },
+            replies: [{ content: 'Please provide the API key for authentication:', delay: 300 }]
+          };
+        }
+        return this.askLeadLimit({ ...data, webhookAuthType: 'none' }, 600);
+
+      case 'webhook-basic-auth': {
+        const [first, second] = response.split(' ');
+        const webhookUsername = first || 'webhook';
+        const webhookPassword = second || this.generatePassword('webhook');
+        return withLeadingReplies(
+          [{ content: `Perfect! I've set up the credentials:\n\n**Username:** ${webhookUsername}\n**Password:** ${webhookPassword}`, delay: 300 }],
+          this.askLeadLimit({ ...data, webhookUsername, webhookPassword })
+        );
+      }
+
+      case 'webhook-api-key':
+        return this.askLeadLimit({ ...data, webhookApiKey: response });
+
+      case 'ftp-server':
+        return {
+          setup: { ...data, ftpServer: response, currentQuestion: 'ftp-port' },
+          replies: [{
+            content: 'What port should I use for FTP? (Default is 21)',
+            suggestedActions: [
+              answer('default-port', 'Use default (21)', '21'),
+              answer('port-22', 'SFTP (22)', '22')
+            ],
+            delay: 300
+          }]
+        };
+
+      case 'ftp-port':
+        return {
+          setup: { ...data, ftpPort: response, currentQuestion: 'ftp-username' },
+          replies: [{ content: 'Now I need the FTP username:', delay: 300 }]
+        };
+
+      case 'ftp-username':
+        return {
+          setup: { ...data, ftpUsername: response, currentQuestion: 'ftp-password' },
+          replies: [{ content: 'And the FTP password:', delay: 300 }]
+        };
+
+      case 'ftp-password':
+        return {
+          setup: { ...data, ftpPassword: response, currentQuestion: 'ftp-directory' },
+          replies: [{
+            content: 'What directory should I upload files to? (Leave empty for root directory)',
+            suggestedActions: [
+              answer('root-dir', 'Root directory', '/'),
+              answer('leads-dir', '/leads')
+            ],
+            delay: 300
+          }]
+        };
+
+      case 'ftp-directory':
+        return this.askLeadLimit({ ...data, ftpDirectory: response || '/' });
+
+      case 'email-fields':
+        if (response === 'exclude-some') {
+          return {
+            setup: { ...data, emailFieldConfig: response, currentQuestion: 'email-exclusions' },
+            replies: [{
+              content: 'Which fields would you like to exclude from emails? (Type field names separated by commas, or type \'none\' to include all)',
+              delay: 300
+            }]
+          };
+        }
+        return this.askLeadLimit({ ...data, emailFieldConfig: response }, 300, {
+          content: 'Now let\'s configure lead limits. How many leads per day should this client receive? (Default is 50)',
+          suggestedActions: [
+            answer('default-limit', 'Use default (50)', '50'),
+            answer('limit-25', '25 leads/day', '25'),
+            answer('limit-100', '100 leads/day', '100')
+          ]
+        });
+
+      case 'email-exclusions':
+        return this.askLeadLimit({
+          ...data,
+          emailExclusions: normalized === 'none' ? [] : response.split(',').map(field => field.trim())
+        });
+
+      case 'lead-limit':
+        return this.askLeadPrice({ ...data, dailyLeadLimit: parseInt(response) || 50 });
+
+      case 'lead-price':
+        return this.askLeadTypes({ ...data, leadPrice: parseFloat(response) || 25 });
+
+      case 'lead-types':
+        return {
+          setup: { ...data, leadTypes: response, currentQuestion: 'weekend-delivery' },
+          replies: [{
+            content: 'Should I deliver leads on weekends?',
+            suggestedActions: [
+              answer('yes-weekends', 'Yes, include weekends', 'yes'),
+              answer('no-weekends', 'No, weekdays only', 'no')
+            ],
+            delay: 300
+          }]
+        };
+
+      case 'weekend-delivery':
+        return this.completeClientSetup({ ...data, excludeWeekends: normalized === 'no', currentQuestion: 'complete' });
+
+      case 'complete':
+        if (response === 'open-client') {
+          return {
+            replies: [{ content: `Opening client dashboard for ${data.companyName}...`, delay: 300 }]
+          };
+        }
+        return { replies: [] };
+
+      default:
+        return { replies: [] };
+    }
+  }
+
+  /**
+   * Take every detail a message states, confirm what was picked up and go
+   * on to the first question still open. Returns null when the message only
+   * answers the pending question; the regular step handles that.
+   */
+  private applyExtractedDetails(response: string, data: SimplifiedSetupData): AssistantResponse | null {
+    const question = data.currentQuestion;
+    if (!response) return null;
+
+    const extracted = this.extractor.extract(response, { leadingCompany: question === 'companyName' });
+    // Client and delivery are settled by the limits question; only limits and price still apply
+    const details: ExtractedClientDetails = question === 'lead-limit'
+      ? Object.fromEntries(Object.entries(extracted).filter(([key]) => key === 'dailyLeadLimit' || key === 'leadPrice'))
+      : extracted;
+
+    const found = Object.keys(details);
+    if (found.length === 0 || found.every(key => key === QUESTION_FIELDS[question || ''])) return null;
+
+    const setup: SimplifiedSetupData = { ...data, ...details };
+    if (details.email && details.email !== data.email) {
+      Object.assign(setup, this.generateCredentials(details.email));
+    }
+
+    const intro = question
+      ? 'Thanks! Here\'s what I picked up from your message:'
+      : 'I\'ll help you set up this client. Here\'s what I picked up from your message:';
+    return withLeadingReplies(
+      [{ content: `${intro}\n\n${describeDetails(details)}\n\nI'll skip the questions these answer.` }],
+      question === 'lead-limit' ? this.askLeadPrice(setup) : this.askClientBasics(setup)
+    );
+  }
+
+  /** Ask for whichever of company name and email is missing, then offer the generated credentials */
+  private askClientBasics(data: SimplifiedSetupData): AssistantResponse {
+    if (!data.companyName) {
+      return {
+        setup: { ...data, currentQuestion: 'companyName' },
+        replies: [{ content: 'What\'s the company name? (Type your answer in the chat)', delay: 500 }]
+      };
+    }
+    if (!data.email) {
+      return {
+        setup: { ...data, currentQuestion: 'email' },
+        replies: [{
+          content: `Now I need an email address for ${data.companyName}. This will be used for login and lead delivery.\n\nPlease type the email address:`,
+          delay: 500
+        }]
+      };
+    }
+    return {
+      setup: { ...data, currentQuestion: 'credentials' },
+      replies: [{
+        content: `I've generated secure credentials for ${data.companyName}:\n\n**Username:** ${data.username}\n**Password:** ${data.password}\n\nWould you like to use these or provide your own?`,
+        suggestedActions: [
+          answer('use-generated', 'Use these credentials'),
+          answer('custom-username', 'I\'ll provide custom username'),
+          answer('custom-both', 'I\'ll provide both')
+        ],
+        delay: 500
+      }]
+    };
+  }
+
+  private askDelivery(data: SimplifiedSetupData, delay = 300): AssistantResponse {
+    if (data.deliveryMethod) {
+      return this.handleDeliveryChoice(data.deliveryMethod, data);
+    }
+    return {
+      setup: { ...data, currentQuestion: 'delivery' },
+      replies: [{ content: DELIVERY_PROMPT, suggestedActions: DELIVERY_ACTIONS, delay }]
+    };
+  }
+
+  private askLeadLimit(
+    data: SimplifiedSetupData,
+    delay = 300,
+    prompt: AssistantReply = { content: LEAD_LIMIT_PROMPT }
+  ): AssistantResponse {
+    if (data.dailyLeadLimit) {
+      return this.askLeadPrice(data, delay);
+    }
+    return {
+      setup: { ...data, currentQuestion: 'lead-limit' },
+      replies: [{ ...prompt, delay }]
+    };
+  }
+
+  private askLeadPrice(data: SimplifiedSetupData, delay = 300): AssistantResponse {
+    if (data.leadPrice) {
+      return this.askLeadTypes(data, delay);
+    }
+    return {
+      setup: { ...data, currentQuestion: 'lead-price' },
+      replies: [{
+        content: `Got it, ${data.dailyLeadLimit} leads per day. What's the price per lead in dollars? (e.g., 25 for $25)`,
+        delay
+      }]
+    };
+  }
+
+  private askLeadTypes(data: SimplifiedSetupData, delay = 300): AssistantResponse {
+    return {
+      setup: { ...data, currentQuestion: 'lead-types' },
+      replies: [{
+        content: `Perfect! $${data.leadPrice} per lead. What types of leads should this client receive?`,
+        suggestedActions: [
+          answer('all-types', 'All lead types', 'all'),
+          answer('residential', 'Residential only'),
+          answer('commercial', 'Commercial only')
+        ],
+        delay
+      }]
+    };
+  }
+
+  private handleDeliveryChoice(method: string | undefined, data: SimplifiedSetupData): AssistantResponse {
+    const setup = { ...data, deliveryMethod: method };
+
+    switch (method) {
+      case 'webhook':
+        return {
+          setup: { ...setup, currentQuestion: 'webhook-url' },
+          replies: [{
+            content: 'Good choice! Now I need the webhook endpoint URL.\n\nPlease provide the webhook URL where leads should be sent:',
+            delay: 300
+          }]
+        };
+      case 'email':
+        return {
+          setup: { ...setup, currentQuestion: 'email-fields' },
+          replies: [{
+            content: `Perfect! I'll use ${data.email} for delivery.\n\nShould I include all lead fields in the email, or would you like to exclude some?`,
+            suggestedActions: [
+              answer('all-fields', 'Include all fields'),
+              answer('exclude-some', 'Let me specify exclusions')
+            ],
+            delay: 300
+          }]
+        };
+      case 'ftp':
+        return {
+          setup: { ...setup, currentQuestion: 'ftp-server' },
+          replies: [{
+            content: 'I\'ll help you set up FTP delivery. What\'s the FTP server address?\n\nPlease provide the FTP server hostname or IP:',
+            delay: 300
+          }]
+        };
+      case 'skip':
+        return this.askLeadLimit(setup, 600);
+      default:
+        return {
+          replies: [{ content: 'Please choose a delivery method: Email delivery, HTTP webhook, FTP transfer, or Skip for now.' }]
+        };
+    }
+  }
+
+  private completeClientSetup(data: SimplifiedSetupData): AssistantResponse {
+    let deliveryConfig = DELIVERY_LABELS[data.deliveryMethod || ''] || 'Not configured';
+
+    if (data.deliveryMethod === 'webhook') {
+      deliveryConfig += `\n  • URL: ${data.webhookUrl}`;
+      if (data.webhookAuthType === 'basic-auth') {
+        deliveryConfig += `\n  • Auth: Basic (${data.webhookUsername})`;
+      } else if (data.webhookAuthType === 'api-key') {
+        deliveryConfig += '\n  • Auth: API Key';
+      }
+    } else if (data.deliveryMethod === 'ftp') {
+      deliveryConfig += `\n  • Server: ${data.ftpServer}:${data.ftpPort}`;
+      deliveryConfig += `\n  • User: ${data.ftpUsername}`;
+      deliveryConfig += `\n  • Directory: ${data.ftpDirectory}`;
+    } else if (data.deliveryMethod === 'email') {
+      deliveryConfig += ` to ${data.email}`;
+      if (data.emailExclusions && data.emailExclusions.length > 0) {
+        deliveryConfig += `\n  • Excluded fields: ${data.emailExclusions.join(', ')}`;
+      }
+    }
+
+    let configSummary = '';
+    if (data.dailyLeadLimit) {
+      configSummary += `\n**Lead Limits:** ${data.dailyLeadLimit} leads/day`;
+    }
+    if (data.leadPrice) {
+      configSummary += `\n**Price per Lead:** $${data.leadPrice}`;
+    }
+    if (data.leadTypes && data.leadTypes !== 'all') {
+      configSummary += `\n**Lead Types:** ${data.leadTypes}`;
+    }
+    if (data.excludeWeekends) {
+      configSummary += '\n**Weekend Delivery:** Excluded';
+    }
+
+    const replies: AssistantReply[] = [
+      {
+        content: `Excellent! I'm creating the client now with these details:\n\n**Company:** ${data.companyName}\n**Email:** ${data.email}${data.phone ? `\n**Phone:** ${data.phone}` : ''}\n**Username:** ${data.username}\n**Delivery:** ${deliveryConfig}${configSummary}`,
+        delay: 300
+      },
+      {
+        content: 'Creating client in LeadExec...',
+        processing: 'Setting up client configuration and generating credentials...',
+        delay: 500
+      },
+      {
+        content: `Client "${data.companyName}" has been successfully created!\n\nThe client can now log in using their credentials. You can configure additional settings anytime from the client management panel.`,
+        suggestedActions: [
+          answer('open-client', 'Open Client'),
+          { id: 'create-another-simplified', label: 'Create Another Client', command: { type: 'start-flow', flowId: SIMPLIFIED_SETUP_FLOW } },
+          { id: 'back-to-tools', label: 'Back to Tools', command: { type: 'start-over' } }
+        ],
+        delay: 2000
+      }
+    ];
+
+    return { setup: data, replies, done: true };
+  }
+}
+
+export const localAssistantProvider = new LocalAssistantProvider();
@@ -0,0 +1,395 @@
+// Client onboarding as a saga: each LeadExec call is a step with an undo,
+// and a persisted log records how far a run got
+import { systemClock, type Clock } from './clock';
+import type { DeliveryConfig } from './deliveryConfig';
+import {
+  leadexecApi,
+  type LeadExecAPI,
+  type NewClient,
+  type NewDeliveryAccount,
+  type RequestOptions,
+  type RequestPreview
+} from './leadexecApi';
+
+const STORAGE_KEY = 'leadexec-copilot:onboarding';
+const MAX_LOGS = 20;
+
+export type OnboardingApi = Pick<
+  LeadExecAPI,
+  | 'createClient' | 'createDeliveryMethod' | 'createDeliveryAccount' | 'setClientStatus' | 'deleteDeliveryMethod'
+  | 'deleteDeliveryAccount'
+  | 'previewCreateClient' | 'previewCreateDeliveryMethod' | 'previewCreateDeliveryAccount'
+>;
+
+/** What to create; a null delivery or account skips that step */
+export interface OnboardingRequest {
+  client: NewClient;
+  delivery: DeliveryConfig | null;
+  account: NewDeliveryAccount | null;
+}
+
+export type OnboardingStepId = 'create-client' | 'create-delivery-method' | 'create-delivery-account';
+
+export type OnboardingStepStatus =
+  | 'pending'
+  | 'running'
+  | 'done'
+  | 'skipped'
+  | 'failed'
+  | 'compensated'
+  | 'compensation-failed';
+
+export interface OnboardingStepRecord {
+  id: OnboardingStepId;
+  label: string;
+  status: OnboardingStepStatus;
+  error?: string;
+  finishedAt?: string;
+}
+
+export type OnboardingStatus = 'running' | 'failed' | 'completed' | 'rolling-back' | 'rolled-back' | 'rollback-failed';
+
+/** What a run has created so far, needed to undo it */
+export interface OnboardingResources {
+  clientUID?: number;
+  deliveryMethodUID?: number;
+  deliveryAccountUID?: number;
+}
+
+/** Persisted record of one run; passwords and other secrets are not kept */
+export interface OnboardingLog {
+  id: string;
+  companyName: string;
+  status: OnboardingStatus;
+  steps: OnboardingStepRecord[];
+  resources: OnboardingResources;
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface OnboardingOptions extends RequestOptions {
+  /** Called with the log after every change */
+  onProgress?: (log: OnboardingLog) => void;
+}
+
+/** The request a step would send */
+export interface OnboardingPreview {
+  id: OnboardingStepId;
+  label: string;
+  request: RequestPreview;
+}
+
+/** A step failed; the log shows which one and what was created before it */
+export class OnboardingError extends Error {
+  constructor(public readonly log: OnboardingLog, public readonly step: OnboardingStepId, public readonly cause: unknown) {
+    super(`${log.steps.find(record => record.id === step)?.label ?? step} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'OnboardingError';
+  }
+}
+
+interface OnboardingStep {
+  id: OnboardingStepId;
+  label: string;
+  skip: (request: OnboardingRequest) => boolean;
+  run: (api: OnboardingApi, request: OnboardingRequest, resources: OnboardingResources, options: RequestOptions) => Promise<OnboardingResources>;
+  preview: (api: OnboardingApi, request: OnboardingRequest) => Promise<RequestPreview> | RequestPreview;
+  /** Undo a completed step */
+  compensate: (api: OnboardingApi, resources: OnboardingResources) => Promise<unknown>;
+}
+
+const requireUID = (uid: number | undefined, what: string): number => {
+  if (uid === undefined) throw new Error(`No ${what} was recorded for this onboarding`);
+  return uid;
+};
+
+const STEPS: OnboardingStep[] = [
+  {
+    id: 'create-client',
+    label: 'Create client',
+    skip: () => false,
+    run: async (api, request, _resources, options) => {
+      const response = await api.createClient(request.client, options);
+      if (!response.success || !response.ClientUID) throw new Error(response.error || 'Client was not created');
+      return { clientUID: response.ClientUID };
+    },
+    preview: (api, request) => api.previewCreateClient(request.client),
+    // Clients are disabled rather than deleted, so LeadExec keeps their history
+    compensate: (api, { clientUID }) => api.setClientStatus(requireUID(clientUID, 'client'), 'Inactive')
+  },
+  {
+    id: 'create-delivery-method',
+    label: 'Add delivery method',
+    skip: request => !request.delivery,
+    run: async (api, request, { clientUID }, options) => {
+      const response = await api.createDeliveryMethod(requireUID(clientUID, 'client'), request.delivery!, options);
+      if (!response.success || response.deliveryMethodUID === undefined) {
+        throw new Error(response.error || 'Delivery method was not created');
+      }
+      return { deliveryMethodUID: response.deliveryMethodUID };
+    },
+    preview: (api, request) => api.previewCreateDeliveryMethod(null, request.delivery!),
+    compensate: (api, { clientUID, deliveryMethodUID }) =>
+      api.deleteDeliveryMethod(requireUID(clientUID, 'client'), requireUID(deliveryMethodUID, 'delivery method'))
+  },
+  {
+    id: 'create-delivery-account',
+    label: 'Create delivery account',
+    skip: request => !request.account,
+    run: async (api, request, { clientUID }, options) => {
+      const response = await api.createDeliveryAccount(requireUID(clientUID, 'client'), request.account!, options);
+      if (!response.success || response.deliveryAccountUID === undefined) {
+        throw new Error(response.error || 'Delivery account was not created');
+      }
+      return { deliveryAccountUID: response.deliveryAccountUID };
+    },
+    preview: (api, request) => api.previewCreateDeliveryAccount(null, request.account!),
+    compensate: (api, { clientUID, deliveryAccountUID }) =>
+      api.deleteDeliveryAccount(requireUID(clientUID, 'client'), requireUID(deliveryAccountUID, 'delivery account'))
+  }
+];
+
+const INTERRUPTED = 'Interrupted before LeadExec answered. Check whether it was created before resuming.';
+
+const createLogId = () => `onb-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Runs client onboarding step by step. A failed step leaves the run
+ * resumable from that step; rolling back undoes the completed steps in
+ * reverse. Logs are kept in localStorage so a run can still be rolled back
+ * after a reload; requests stay in memory because they hold credentials.
+ * Storage failures are logged and otherwise ignored.
+ */
+export class OnboardingOrchestrator {
+  private requests = new Map<string, OnboardingRequest>();
+  // Latest log of each run, for when storage is unavailable
+  private logs = new Map<string, OnboardingLog>();
+  // Runs being executed or rolled back by this instance
+  private active = new Set<string>();
+
+  constructor(
+    private api: OnboardingApi = leadexecApi,
+    private storageKey = STORAGE_KEY,
+    private clock: Clock = systemClock
+  ) {}
+
+  private get storage(): Storage | null {
+    try {
+      return typeof window !== 'undefined' ? window.localStorage : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Logs of recent runs, newest first */
+  list(): OnboardingLog[] {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      const logs = raw ? JSON.parse(raw) : [];
+      return Array.isArray(logs) ? logs : [];
+    } catch (error) {
+      console.warn('Failed to load onboarding logs:', error);
+      return [];
+    }
+  }
+
+  get(id: string): OnboardingLog | null {
+    return this.list().find(log => log.id === id) ?? this.logs.get(id) ?? null;
+  }
+
+  /**
+   * The log of a run, after a reload cut it short. A run still saved as
+   * running is failed at the step in progress, which may or may not have
+   * completed in LeadExec; an unfinished rollback can be tried again.
+   */
+  recover(id: string): OnboardingLog | null {
+    const log = this.get(id);
+    if (!log || this.active.has(id)) return log;
+    if (log.status === 'running') {
+      return this.save({
+        ...log,
+        status: 'failed',
+        steps: log.steps.map(record => (record.status === 'running'
+          ? { ...record, status: 'failed', error: INTERRUPTED, finishedAt: this.timestamp() }
+          : record))
+      }, {});
+    }
+    if (log.status === 'rolling-back') return this.save({ ...log, status: 'rollback-failed' }, {});
+    return log;
+  }
+
+  /** Whether the run's request is still in memory, so it can be resumed */
+  canResume(id: string): boolean {
+    return this.get(id)?.status === 'failed' && this.requests.has(id);
+  }
+
+  /**
+   * Run onboarding for request. Every request is checked before the first
+   * one is sent, so e.g. an invalid delivery config fails with a
+   * ValidationError before the client is created.
+   */
+  async start(request: OnboardingRequest, options: OnboardingOptions = {}): Promise<OnboardingLog> {
+    await this.validate(request);
+    const now = this.timestamp();
+    const log: OnboardingLog = {
+      id: createLogId(),
+      companyName: request.client.companyName,
+      status: 'running',
+      steps: STEPS.map(step => ({ id: step.id, label: step.label, status: 'pending' })),
+      resources: {},
+      startedAt: now,
+      updatedAt: now
+    };
+    this.requests.set(log.id, request);
+    return this.execute(log, request, options);
+  }
+
+  /**
+   * The requests a run of request would send, step by step, without
+   * sending them or recording a run. Skipped steps are left out.
+   */
+  async preview(request: OnboardingRequest): Promise<OnboardingPreview[]> {
+    const previews: OnboardingPreview[] = [];
+    for (const step of STEPS) {
+      if (step.skip(request)) continue;
+      previews.push({ id: step.id, label: step.label, request: await step.preview(this.api, request) });
+    }
+    return previews;
+  }
+
+  /**
+   * Continue a failed run from the step that failed. A new request replaces
+   * the remembered one, e.g. after the user corrected their answers; steps
+   * already done are not run again.
+   */
+  async resume(id: string, request?: OnboardingRequest, options: OnboardingOptions = {}): Promise<OnboardingLog> {
+    const log = this.get(id);
+    if (!log) throw new Error(`Onboarding ${id} was not found`);
+    if (log.status !== 'failed') throw new Error(`Onboarding ${id} cannot be resumed while ${log.status}`);
+    const next = request ?? this.requests.get(id);
+    if (!next) throw new Error('The details for this onboarding are no longer available. Roll it back and start again.');
+    await this.validate(next, log);
+    this.requests.set(id, next);
+    return this.execute({ ...log, status: 'running' }, next, options);
+  }
+
+  /**
+   * Undo the completed steps, last first. Stops at the first undo that
+   * fails; rolling back again retries from there.
+   */
+  async rollback(id: string, options: Pick<OnboardingOptions, 'onProgress'> = {}): Promise<OnboardingLog> {
+    let log = this.get(id);
+    if (!log) throw new Error(`Onboarding ${id} was not found`);
+    if (log.status === 'rolled-back') return log;
+    if (log.status === 'running' || log.status === 'rolling-back') {
+      throw new Error(`Onboarding ${id} is still ${log.status}`);
+    }
+    log = this.save({ ...log, status: 'rolling-back' }, options);
+    this.active.add(id);
+    try {
+      return await this.undoSteps(log, options);
+    } finally {
+      this.active.delete(id);
+    }
+  }
+
+  private async undoSteps(log: OnboardingLog, options: Pick<OnboardingOptions, 'onProgress'>): Promise<OnboardingLog> {
+    for (const step of [...STEPS].reverse()) {
+      const record = log.steps.find(item => item.id === step.id);
+      if (!record || (record.status !== 'done' && record.status !== 'compensation-failed')) continue;
+      try {
+        await step.compensate(this.api, log.resources);
+        log = this.updateStep(log, step.id, { status: 'compensated', error: undefined }, options);
+      } catch (error) {
+        log = this.updateStep(log, step.id, { status: 'compensation-failed', error: describe(error) }, options);
+        log = this.save({ ...log, status: 'rollback-failed' }, options);
+        throw new OnboardingError(log, step.id, error);
+      }
+    }
+
+    this.requests.delete(log.id);
+    return this.save({ ...log, status: 'rolled-back' }, options);
+  }
+
+  // Build the request of every step still to run; invalid requests throw
+  private async validate(request: OnboardingRequest, log?: OnboardingLog): Promise<void> {
+    for (const step of STEPS) {
+      const record = log?.steps.find(item => item.id === step.id);
+      if (record?.status === 'done' || record?.status === 'skipped' || step.skip(request)) continue;
+      await step.preview(this.api, request);
+    }
+  }
+
+  private async execute(log: OnboardingLog, request: OnboardingRequest, options: OnboardingOptions): Promise<OnboardingLog> {
+    this.active.add(log.id);
+    try {
+      return await this.runSteps(log, request, options);
+    } finally {
+      this.active.delete(log.id);
+    }
+  }
+
+  private async runSteps(log: OnboardingLog, request: OnboardingRequest, options: OnboardingOptions): Promise<OnboardingLog> {
+    const { onProgress, ...requestOptions } = options;
+    log = this.save(log, { onProgress });
+
+    for (const step of STEPS) {
+      const record = log.steps.find(item => item.id === step.id);
+      if (record?.status === 'done' || record?.status === 'skipped') continue;
+      if (step.skip(request)) {
+        log = this.updateStep(log, step.id, { status: 'skipped' }, { onProgress });
+        continue;
+      }
+
+      log = this.updateStep(log, step.id, { status: 'running', error: undefined }, { onProgress });
+      try {
+        const created = await step.run(this.api, request, log.resources, requestOptions);
+        log = this.updateStep({ ...log, resources: { ...log.resources, ...created } }, step.id, { status: 'done' }, { onProgress });
+      } catch (error) {
+        log = this.updateStep(log, step.id, { status: 'failed', error: describe(error) }, { onProgress });
+        log = this.save({ ...log, status: 'failed' }, { onProgress });
+        throw new OnboardingError(log, step.id, error);
+      }
+    }
+
+    this.requests.delete(log.id);
+    return this.save({ ...log, status: 'completed' }, { onProgress });
+  }
+
+  private updateStep(
+    log: OnboardingLog,
+    stepId: OnboardingStepId,
+    patch: Partial<OnboardingStepRecord>,
+    options: Pick<OnboardingOptions, 'onProgress'>
+  ): OnboardingLog {
+    const finished = patch.status !== 'running' && patch.status !== 'pending';
+    return this.save({
+      ...log,
+      steps: log.steps.map(record => (record.id === stepId
+        ? { ...record, ...patch, ...(finished ? { finishedAt: this.timestamp() } : {}) }
+        : record))
+    }, options);
+  }
+
+  private save(log: OnboardingLog, { onProgress }: Pick<OnboardingOptions, 'onProgress'>): OnboardingLog {
+    const saved = { ...log, updatedAt: this.timestamp() };
+    this.logs.set(saved.id, saved);
+    try {
+      const others = this.list().filter(item => item.id !== saved.id);
+      this.storage?.setItem(this.storageKey, JSON.stringify([saved, ...others].slice(0, MAX_LOGS)));
+    } catch (error) {
+      console.warn('Failed to save onboarding log:', error);
+    }
+    onProgress?.(saved);
+    return saved;
+  }
+
+  private timestamp(): string {
+    return new Date(this.clock.now()).toISOString();
+  }
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export const onboardingOrchestrator = new OnboardingOrchestrator();
@@ -0,0 +1,49 @@
+import type { ChatSession } from '../components/chat-types';
+
+const STORAGE_KEY = 'leadexec-copilot:sessions';
+
+export interface SessionListSnapshot {
+  sessions: ChatSession[];
+  activeId: string;
+}
+
+/**
+ * Saves the list of chat sessions; each session's conversation is saved
+ * separately by its ConversationStore. Storage failures are logged and
+ * otherwise ignored.
+ */
+export class SessionStore {
+  constructor(private storageKey = STORAGE_KEY) {}
+
+  private get storage(): Storage | null {
+    try {
+      return typeof window !== 'undefined' ? window.localStorage : null;
+    } catch {
+      return null;
+    }
+  }
+
+  save(snapshot: SessionListSnapshot): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(snapshot));
+    } catch (error) {
+      console.warn('Failed to save sessions:', error);
+    }
+  }
+
+  load(): SessionListSnapshot | null {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      if (!raw) return null;
+
+      const snapshot = JSON.parse(raw) as SessionListSnapshot;
+      if (!Array.isArray(snapshot.sessions) || snapshot.sessions.length === 0) return null;
+      return snapshot;
+    } catch (error) {
+      console.warn('Failed to load sessions:', error);
+      return null;
+    }
+  }
+}
+
+export const sessionStore = new SessionStore();
@@ -2,9 +2,33 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from '../App'
 import '../styles/globals.css'
+import { ConsoleSink, eventBus, eventLog } from '../services/eventBus'
+
+// Chat events are kept for the funnel view, and echoed to the console while developing
+eventBus.addSink(eventLog)
+if (import.meta.env.DEV) {
+  eventBus.addSink(new ConsoleSink())
+}
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
   </React.StrictMode>,
 )
+
+// Scripted flow and extraction checks, run from the browser console during development
+if (import.meta.env.DEV) {
+  Object.assign(window, {
+    runFlowScenarios: async () => {
+      const [{ runFlowScenarios }, { CLIENT_SETUP_SCENARIOS }] = await Promise.all([
+        import('../components/flow-harness'),
+        import('../components/flows/scenarios')
+      ]);
+      return runFlowScenarios(CLIENT_SETUP_SCENARIOS);
+    },
+    checkClientDetailsExamples: async () => {
+      const { checkClientDetailsExamples } = await import('../services/clientDetailsExamples');
+      return checkClientDetailsExamples();
+    }
+  });
+}
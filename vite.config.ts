@@ -37,7 +37,8 @@ export default defineConfig(({ command }) => ({
       '@radix-ui/react-toggle@1.1.2': '@radix-ui/react-toggle',
       '@radix-ui/react-accordion@1.2.3': '@radix-ui/react-accordion',
       '@radix-ui/react-aspect-ratio@1.1.2': '@radix-ui/react-aspect-ratio',
-      'lucide-react@0.487.0': 'lucide-react'
+      'lucide-react@0.487.0': 'lucide-react',
+      'cmdk@1.1.1': 'cmdk'
     }
   }
 }))